@@ -3,6 +3,7 @@
 import {
   CategoryScale,
   Chart as ChartJS,
+  Filler,
   Legend,
   LinearScale,
   LineElement,
@@ -12,9 +13,63 @@ import {
 } from 'chart.js';
 import annotationPlugin from 'chartjs-plugin-annotation';
 import 'katex/dist/katex.min.css';
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Line } from 'react-chartjs-2';
 import { BlockMath } from 'react-katex';
+import ActivityEditor from '@/components/ActivityEditor';
+import CurveEditor from '@/components/CurveEditor';
+import CurveHealthPanel from '@/components/CurveHealthPanel';
+import GameTypeEditor from '@/components/GameTypeEditor';
+import LiveOpsEditor from '@/components/LiveOpsEditor';
+import MilestoneTable from '@/components/MilestoneTable';
+import ModifierEditor from '@/components/ModifierEditor';
+import PacingSolver from '@/components/PacingSolver';
+import PopulationPanel from '@/components/PopulationPanel';
+import ProfileComparison from '@/components/ProfileComparison';
+import ProfileEditor from '@/components/ProfileEditor';
+import RewardTableEditor from '@/components/RewardTableEditor';
+import ScenarioFiles from '@/components/ScenarioFiles';
+import TierEditor from '@/components/TierEditor';
+import TimeToLevelMatrix from '@/components/TimeToLevelMatrix';
+import XPBreakdownTable from '@/components/XPBreakdownTable';
+import { useOnDemandResult } from '@/hooks/useOnDemandResult';
+import { expectedLevels, expectedXP, horizonOptions } from '@/lib/analytical';
+import { ActivityModel, activitySeries, defaultActivity } from '@/lib/activity';
+import { defaultCalendar, parseISODate, WEEKDAY_NAMES } from '@/lib/calendar';
+import { curveFamilies, CurveDefinition, curveLatex, curvePresets, curveText } from '@/lib/curves';
+import { gameEventsCSV, timelineCSV } from '@/lib/csv';
+import { analyzeCurve, analyzePacing, curveWarningColors, defaultPacingThresholds, flaggedLevels, PacingThresholds } from '@/lib/curveHealth';
+import { downloadFile } from '@/lib/download';
+import { AnnotationStyle, annotationStyles, cadenceLabel, completionCycles, defaultGameTypes, GameTypeDefinition } from '@/lib/gameTypes';
+import { createLevelScale } from '@/lib/levels';
+import { eventDayRange, LiveOpsEvent, retargetLiveOps } from '@/lib/liveOps';
+import { defaultMilestones, LevelMilestone, milestoneTimeline } from '@/lib/milestones';
+import { defaultModifiers, hasActiveModifiers, XPModifiers, xpSourceColors, xpSourceLabels, xpSources } from '@/lib/modifiers';
+import {
+  DEFAULT_MONTE_CARLO_RUNS,
+  histogram,
+  monteCarloRunOptions,
+  MonteCarloResult,
+  percentile,
+  probabilityOfReaching,
+  runMonteCarloInChunks
+} from '@/lib/monteCarlo';
+import { defaultPopulation, PopulationConfig } from '@/lib/population';
+import {
+  fitProfilesToTiers,
+  isSameProfile,
+  loadStoredProfiles,
+  PlayerProfile,
+  PlayerProfiles,
+  playerProfiles,
+  storeProfiles
+} from '@/lib/profiles';
+import { decodeScenarioHash, encodeScenarioHash, Scenario, SCENARIO_VERSION, ScenarioError, validateScenario } from '@/lib/scenario';
+import { DEFAULT_SEED, deriveSeed, MAX_SEED, randomSeed } from '@/lib/random';
+import { defaultOpponents, OpponentPool } from '@/lib/rating';
+import { placementDistribution, simulateYear, SimulationMode, simulationModeLabels, SimulationResult } from '@/lib/simulation';
+import { defaultLevelTargets, LevelTarget } from '@/lib/timeToLevel';
+import { defaultTiers, PlacementTier, tierColor, tierProbability } from '@/lib/tiers';
 
 ChartJS.register(
   CategoryScale,
@@ -24,53 +79,43 @@ ChartJS.register(
   Title,
   Tooltip,
   Legend,
+  Filler,
   annotationPlugin
 );
 
-type PlayerProfile = 'wins-everything' | 'exceptional' | 'average' | 'looser';
-
-const playerProfiles = {
-  'wins-everything': {
-    name: 'Wins Everything',
-    icon: '👑',
-    description: 'Elite player with exceptional skill',
-    distribution: { first: 1.0, second: 0.0, third: 0.0, participation: 0.0 },
-    color: 'bg-yellow-500 hover:bg-yellow-600 text-white'
-  },
-  'exceptional': {
-    name: 'Exceptional',
-    icon: '⭐',
-    description: 'Above average competitive player',
-    distribution: { first: 0.50, second: 0.25, third: 0.25, participation: 0.0 },
-    color: 'bg-blue-500 hover:bg-blue-600 text-white'
-  },
-  'average': {
-    name: 'Average',
-    icon: '🎮',
-    description: 'Typical casual player',
-    distribution: { first: 0.20, second: 0.20, third: 0.30, participation: 0.30 },
-    color: 'bg-green-500 hover:bg-green-600 text-white'
-  },
-  'looser': {
-    name: 'Looser',
-    icon: '😅',
-    description: 'Struggling or new player',
-    distribution: { first: 0.0, second: 0.0, third: 0.0, participation: 1.0 },
-    color: 'bg-gray-500 hover:bg-gray-600 text-white'
-  }
-};
+// Line colors for overlaid profiles in comparison mode
+const COMPARISON_COLORS = [
+  'rgb(234, 179, 8)',
+  'rgb(59, 130, 246)',
+  'rgb(34, 197, 94)',
+  'rgb(107, 114, 128)',
+  'rgb(239, 68, 68)',
+  'rgb(168, 85, 247)',
+  'rgb(236, 72, 153)',
+  'rgb(249, 115, 22)',
+  'rgb(20, 184, 166)',
+  'rgb(99, 102, 241)',
+];
 
-// Game duration definitions (in days)
-const GAME_DURATIONS = {
-  daily: 1,
-  weekly: 7,
-  monthly: 30
+// Legend line sample for each annotation style
+const ANNOTATION_LEGEND_CLASSES: Record<AnnotationStyle, string> = {
+  none: '',
+  dashed: 'border-dashed',
+  dotted: 'border-dotted',
+  solid: '',
 };
 
 export default function XPCalculator() {
   // Player profile selection
   const [selectedProfile, setSelectedProfile] = useState<PlayerProfile>('average');
   
+  // Player profile definitions (built-ins until stored custom profiles are loaded)
+  const [profiles, setProfiles] = useState<PlayerProfiles>(playerProfiles);
+  const [profilesLoaded, setProfilesLoaded] = useState<boolean>(false);
+  // Set when a scenario brought profiles that differ from the stored ones; they stay in this session until saved
+  const [hasUnsavedScenarioProfiles, setHasUnsavedScenarioProfiles] = useState<boolean>(false);
+  const [showProfileEditor, setShowProfileEditor] = useState<boolean>(false);
+  
   // Fullscreen state
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
   
@@ -80,236 +125,526 @@ export default function XPCalculator() {
   // Level list visibility state
   const [showLevelList, setShowLevelList] = useState<boolean>(false);
   
-  // Game frequency inputs
-  const [dailyGames, setDailyGames] = useState<number>(2);
-  const [weeklyGames, setWeeklyGames] = useState<number>(3);
-  const [monthlyGames, setMonthlyGames] = useState<number>(1);
+  // Comparison mode: overlay several profiles on one chart
+  const [comparisonEnabled, setComparisonEnabled] = useState<boolean>(false);
+  const [comparedProfiles, setComparedProfiles] = useState<PlayerProfile[]>(Object.keys(playerProfiles));
   
-  // Points per day by placement
-  const [firstPlacePointsPerDay, setFirstPlacePointsPerDay] = useState<number>(5);
-  const [secondPlacePointsPerDay, setSecondPlacePointsPerDay] = useState<number>(3);
-  const [thirdPlacePointsPerDay, setThirdPlacePointsPerDay] = useState<number>(2);
-  const [participationPointsPerDay, setParticipationPointsPerDay] = useState<number>(1);
-
-  // Polynomial coefficients - immediate and debounced versions
-  const [polyA, setPolyA] = useState<number>(0.035); // x^2 coefficient
-  const [polyB, setPolyB] = useState<number>(2.5); // x coefficient
-  const [polyC, setPolyC] = useState<number>(10); // constant
-  const [polyMultiplier, setPolyMultiplier] = useState<number>(0.5); // final multiplier
+  // Monte Carlo mode: many independently seeded runs summarised as percentile bands
+  const [monteCarloEnabled, setMonteCarloEnabled] = useState<boolean>(false);
+  const [monteCarloRuns, setMonteCarloRuns] = useState<number>(DEFAULT_MONTE_CARLO_RUNS);
+  const [monteCarloProgress, setMonteCarloProgress] = useState<number>(0); // share of runs done so far
+
+  // Analytical mode: expected XP with a ± one standard deviation band, recomputed live while editing the curve
+  const [analyticalEnabled, setAnalyticalEnabled] = useState<boolean>(false);
+  const [analyticalSeasons, setAnalyticalSeasons] = useState<number>(horizonOptions[0]);
+  const [targetLevel, setTargetLevel] = useState<number>(50);
   
-  const [debouncedPolyA, setDebouncedPolyA] = useState<number>(0.035);
-  const [debouncedPolyB, setDebouncedPolyB] = useState<number>(2.5);
-  const [debouncedPolyC, setDebouncedPolyC] = useState<number>(10);
-  const [debouncedPolyMultiplier, setDebouncedPolyMultiplier] = useState<number>(0.5);
+  // Game type registry (daily, weekly and monthly games by default)
+  const [gameTypes, setGameTypes] = useState<GameTypeDefinition[]>(defaultGameTypes);
+
+  // Placement tiers, best first (1st, 2nd, 3rd and participation by default)
+  const [tiers, setTiers] = useState<PlacementTier[]>(defaultTiers);
+  const [showTierEditor, setShowTierEditor] = useState<boolean>(false);
+
+  // Opponent ratings for profiles on the skill-rating placement model
+  const [opponents, setOpponents] = useState<OpponentPool>(defaultOpponents);
+
+  // Bonus XP layered on top of placement points (streaks, first win, login, boosters)
+  const [modifiers, setModifiers] = useState<XPModifiers>(defaultModifiers);
+
+  // Scheduled live-ops events (double XP weekends, bonus weeks, tournaments)
+  const [liveOps, setLiveOps] = useState<LiveOpsEvent[]>([]);
+
+  // Events playing extra games of a removed type follow the change, so the scenario stays loadable
+  const updateGameTypes = (updated: GameTypeDefinition[]) => {
+    setGameTypes(updated);
+    setLiveOps((events) => retargetLiveOps(events, updated));
+  };
+
+  // Level milestone rewards (unlocks, cosmetics, currency)
+  const [milestones, setMilestones] = useState<LevelMilestone[]>(defaultMilestones);
+
+  // Seed for every placement roll (single run, Monte Carlo and population); rerolling picks a new one
+  const [seed, setSeed] = useState<number>(DEFAULT_SEED);
+
+  // Roll every game, or play out each game's expected placement points
+  const [simulationMode, setSimulationMode] = useState<SimulationMode>('stochastic');
+
+  // Thresholds for level bursts and dead zones in the curve health check
+  const [pacingThresholds, setPacingThresholds] = useState<PacingThresholds>(defaultPacingThresholds);
+
+  // Levels in the time-to-level report and the days each should be reached between
+  const [levelTargets, setLevelTargets] = useState<LevelTarget[]>(defaultLevelTargets);
+
+  // Profile and activity mix for the population simulation
+  const [population, setPopulation] = useState<PopulationConfig>(defaultPopulation);
+
+  // Season calendar
+  const [seasonStartDate, setSeasonStartDate] = useState<string>(defaultCalendar.startDate);
+  const [weeklyEndDay, setWeeklyEndDay] = useState<number>(defaultCalendar.weeklyEndDay);
+
+  // Seasonality, weekday participation and the optional imported activity curve
+  const [activity, setActivity] = useState<ActivityModel>(defaultActivity);
+
+  // Leveling curve - immediate and debounced versions
+  const [curve, setCurve] = useState<CurveDefinition>(curveFamilies.quadratic.defaults);
+  const [debouncedCurve, setDebouncedCurve] = useState<CurveDefinition>(curveFamilies.quadratic.defaults);
   
   // Debounce effect for formula values
   useEffect(() => {
     setIsCalculating(true);
     const timeout = setTimeout(() => {
-      setDebouncedPolyA(polyA);
-      setDebouncedPolyB(polyB);
-      setDebouncedPolyC(polyC);
-      setDebouncedPolyMultiplier(polyMultiplier);
+      setDebouncedCurve(curve);
       setIsCalculating(false);
     }, 300); // 300ms debounce
 
     return () => clearTimeout(timeout);
-  }, [polyA, polyB, polyC, polyMultiplier]);
+  }, [curve]);
 
-  // Get current player profile
-  const currentProfile = playerProfiles[selectedProfile];
-
-  // Leveling system functions that use the polynomial formula
-  const calculateXPForLevel = (level: number): number => {
-    // Polynomial approach: XP = (ax^2 + bx + c) × multiplier
-    // Example: (65x^2 - 165x - 6750) × 0.82
-    const polynomialValue = (debouncedPolyA * Math.pow(level, 2)) + (debouncedPolyB * level) + debouncedPolyC;
-    const result = polynomialValue * debouncedPolyMultiplier;
-    return Math.max(1, Math.floor(result)); // Ensure minimum of 1 XP per level
-  };
+  // Scenario link and file problems are reported in a banner instead of failing the page
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  // Shown for copying by hand when the clipboard is unavailable (denied, or not a secure context)
+  const [linkFallback, setLinkFallback] = useState<string | null>(null);
 
-  const calculateTotalXPToLevel = (targetLevel: number): number => {
-    let totalXP = 0;
-    for (let level = 1; level <= targetLevel; level++) {
-      totalXP += calculateXPForLevel(level);
+  // Apply a linked or imported scenario; its profile definitions win over local ones with the same id for this session,
+  // and local ones move onto the scenario's tiers
+  const applyScenario = useCallback((scenario: Scenario, baseProfiles: PlayerProfiles) => {
+    const mergedProfiles = { ...fitProfilesToTiers(baseProfiles, scenario.tiers), ...scenario.profiles };
+    setProfiles(mergedProfiles);
+    if (Object.entries(scenario.profiles).some(([id, profile]) => !isSameProfile(profile, baseProfiles[id]))) {
+      setHasUnsavedScenarioProfiles(true);
     }
-    return totalXP;
-  };
+    setSelectedProfile(scenario.profile);
+    setTiers(scenario.tiers);
+    setGameTypes(scenario.gameTypes);
+    setSeasonStartDate(scenario.calendar.startDate);
+    setWeeklyEndDay(scenario.calendar.weeklyEndDay);
+    setActivity(scenario.activity);
+    setOpponents(scenario.opponents);
+    setPopulation(scenario.population);
+    setModifiers(scenario.modifiers);
+    setLiveOps(scenario.liveOps);
+    setMilestones(scenario.milestones);
+    setLevelTargets(scenario.levelTargets);
+    setSeed(scenario.seed);
+    setSimulationMode(scenario.mode);
+    setPacingThresholds(scenario.pacingThresholds);
+    setAnalyticalSeasons(scenario.analyticalSeasons);
+    setMonteCarloRuns(scenario.monteCarloRuns);
+    setCurve(scenario.curve);
+    setDebouncedCurve(scenario.curve);
+    setShowLevelList(scenario.showLevelList);
+  }, []);
+
+  // Load stored profiles and tiers and any linked scenario after mount so server and client render the same markup
+  useEffect(() => {
+    const stored = loadStoredProfiles();
+    const loadedProfiles = stored?.profiles ?? playerProfiles;
+    setProfiles(loadedProfiles);
+    if (stored) setTiers(stored.tiers);
+    setSelectedProfile((current) => current in loadedProfiles ? current : Object.keys(loadedProfiles)[0]);
 
-  const calculateLevelFromXP = (totalXP: number): number => {
-    let level = 1;
-    let xpUsed = 0;
-    
-    while (xpUsed + calculateXPForLevel(level) <= totalXP) {
-      xpUsed += calculateXPForLevel(level);
-      level++;
+    try {
+      const scenario = decodeScenarioHash(window.location.hash);
+      if (scenario) applyScenario(scenario, loadedProfiles);
+    } catch (error) {
+      setScenarioError(error instanceof ScenarioError ? error.message : 'The scenario link could not be loaded');
     }
-    
-    return level - 1; // Return the completed level
+
+    setProfilesLoaded(true);
+  }, [applyScenario]);
+  
+  useEffect(() => {
+    if (profilesLoaded && !hasUnsavedScenarioProfiles) storeProfiles({ tiers, profiles });
+  }, [tiers, profiles, profilesLoaded, hasUnsavedScenarioProfiles]);
+
+  // Everything needed to reproduce the current view
+  const scenario = useMemo<Scenario>(() => ({
+    version: SCENARIO_VERSION,
+    profile: selectedProfile,
+    profiles,
+    tiers,
+    gameTypes,
+    curve: debouncedCurve,
+    calendar: { startDate: seasonStartDate, weeklyEndDay },
+    activity,
+    opponents,
+    population,
+    modifiers,
+    liveOps,
+    milestones,
+    levelTargets,
+    seed,
+    mode: simulationMode,
+    pacingThresholds,
+    analyticalSeasons,
+    monteCarloRuns,
+    showLevelList
+  }), [
+    selectedProfile,
+    profiles,
+    tiers,
+    gameTypes,
+    debouncedCurve,
+    seasonStartDate,
+    weeklyEndDay,
+    activity,
+    opponents,
+    population,
+    modifiers,
+    liveOps,
+    milestones,
+    levelTargets,
+    seed,
+    simulationMode,
+    pacingThresholds,
+    analyticalSeasons,
+    monteCarloRuns,
+    showLevelList
+  ]);
+
+  // Editors can hold values a link or file couldn't load back; sharing and export wait until they are fixed
+  const [scenarioProblem] = useMemo(() => validateScenario(scenario), [scenario]);
+
+  // Keep the address bar in sync so the current URL always reproduces the scenario
+  useEffect(() => {
+    if (!profilesLoaded || scenarioProblem) return;
+    window.history.replaceState(null, '', encodeScenarioHash(scenario));
+  }, [scenario, scenarioProblem, profilesLoaded]);
+
+  const copyScenarioLink = async () => {
+    if (scenarioProblem) return;
+    const url = `${window.location.origin}${window.location.pathname}${encodeScenarioHash(scenario)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      setLinkFallback(url);
+      return;
+    }
+    setLinkFallback(null);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
   };
 
-  const calculateXPProgress = (totalXP: number): { currentLevel: number, xpInLevel: number, xpNeededForNext: number, progressPercent: number } => {
-    const currentLevel = calculateLevelFromXP(totalXP);
-    const xpUsedForCompletedLevels = calculateTotalXPToLevel(currentLevel);
-    const xpInLevel = totalXP - xpUsedForCompletedLevels;
-    const xpNeededForNext = calculateXPForLevel(currentLevel + 1);
-    const progressPercent = (xpInLevel / xpNeededForNext) * 100;
-    
-    return {
-      currentLevel,
-      xpInLevel,
-      xpNeededForNext,
-      progressPercent
-    };
+  // Get current player profile
+  const currentProfile = profiles[selectedProfile] ?? Object.values(profiles)[0];
+
+  // Leveling system functions that use the selected curve
+  const levelScale = useMemo(() => createLevelScale(debouncedCurve), [debouncedCurve]);
+  const calculateXPForLevel = levelScale.xpForLevel;
+
+  // Simulation config shared by the single run and the Monte Carlo runs
+  const simulationConfig = useMemo(() => ({
+    gameTypes,
+    tiers,
+    distribution: currentProfile.distribution,
+    rating: currentProfile.rating,
+    opponents,
+    curve: debouncedCurve,
+    calendar: { startDate: seasonStartDate, weeklyEndDay },
+    activity,
+    modifiers,
+    liveOps,
+    mode: simulationMode,
+    seed,
+    seedOffset: currentProfile.seedOffset
+  }), [
+    gameTypes,
+    tiers,
+    opponents,
+    debouncedCurve,
+    seasonStartDate,
+    weeklyEndDay,
+    activity,
+    modifiers,
+    liveOps,
+    simulationMode,
+    seed,
+    currentProfile.distribution,
+    currentProfile.rating,
+    currentProfile.seedOffset
+  ]);
+
+  const simulation = useMemo(() => simulateYear(simulationConfig, levelScale), [simulationConfig, levelScale]);
+  const seasonDays = simulation.calendar;
+
+  // Curve problems hold for every profile; bursts and dead zones are for the selected one
+  const curveWarnings = useMemo(() => analyzeCurve(debouncedCurve), [debouncedCurve]);
+  const pacingWarnings = useMemo(() => analyzePacing(simulation.levels, pacingThresholds), [simulation, pacingThresholds]);
+  const flaggedLevelKinds = useMemo(() => flaggedLevels(curveWarnings), [curveWarnings]);
+
+  // Day the selected profile reaches each milestone level
+  const milestoneReaches = useMemo(
+    () => milestoneTimeline(milestones, simulation.levels, seasonDays),
+    [milestones, simulation, seasonDays]
+  );
+
+  // Every profile simulated under the current schedule, for the comparison view and the pacing solver
+  const profileSimulations = useMemo(() => {
+    const simulations: Record<PlayerProfile, SimulationResult> = {};
+    Object.entries(profiles).forEach(([id, profile]) => {
+      simulations[id] = simulateYear({
+        ...simulationConfig,
+        distribution: profile.distribution,
+        rating: profile.rating,
+        seedOffset: profile.seedOffset
+      }, levelScale);
+    });
+    return simulations;
+  }, [simulationConfig, levelScale, profiles]);
+
+  const cumulativeXPByProfile = useMemo(() => {
+    const trajectories: Record<PlayerProfile, number[]> = {};
+    Object.entries(profileSimulations).forEach(([id, result]) => {
+      trajectories[id] = result.cumulativeXP;
+    });
+    return trajectories;
+  }, [profileSimulations]);
+
+  // Distinct line color for each profile in comparison mode, by position in the profile list
+  const comparisonColors = useMemo(() => {
+    const colors: Record<PlayerProfile, string> = {};
+    Object.keys(profiles).forEach((id, index) => {
+      colors[id] = COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+    });
+    return colors;
+  }, [profiles]);
+
+  // Runs take seconds, so they only happen on request; the inputs tell when the result is out of date
+  const {
+    result: monteCarloResult,
+    isStale: isMonteCarloStale,
+    isRunning: isRunningMonteCarlo,
+    error: monteCarloError,
+    run: runMonteCarloResult,
+    clear: clearMonteCarloResult
+  } = useOnDemandResult<MonteCarloResult>([simulationConfig, monteCarloRuns, selectedProfile, seasonStartDate, weeklyEndDay]);
+
+  // Bands from another profile or calendar would sit on the chart as if they were this one's, so they are dropped
+  useEffect(() => {
+    clearMonteCarloResult();
+  }, [selectedProfile, seasonStartDate, weeklyEndDay, clearMonteCarloResult]);
+
+  // Bands are hidden while comparing profiles
+  const monteCarlo = monteCarloEnabled && !comparisonEnabled ? monteCarloResult : null;
+
+  // Runs are rolled in chunks between browser frames, so the page stays usable and shows progress
+  const runMonteCarloBands = () => {
+    setMonteCarloProgress(0);
+    runMonteCarloResult(() => runMonteCarloInChunks(
+      simulationConfig,
+      monteCarloRuns,
+      deriveSeed(simulationConfig.seed, simulationConfig.seedOffset),
+      setMonteCarloProgress
+    ));
   };
 
+  const analyticalXP = useMemo(() => {
+    if (!analyticalEnabled || comparisonEnabled) return null;
+    return expectedXP(simulationConfig, analyticalSeasons, levelScale);
+  }, [analyticalEnabled, comparisonEnabled, simulationConfig, analyticalSeasons, levelScale]);
+
+  // Levels follow the live curve rather than the debounced one, so the band moves while coefficients are dragged
+  const analytical = useMemo(() => {
+    if (!analyticalXP) return null;
+    return { xp: analyticalXP, levels: expectedLevels(analyticalXP, createLevelScale(curve)) };
+  }, [analyticalXP, curve]);
+
+  // Days along the chart's x axis: the season, or the analytical horizon when it runs longer
+  const chartDays = analytical?.xp.calendar ?? seasonDays;
+  const isMultiSeason = chartDays.length > seasonDays.length;
+
+  // The single-run chart splits XP by source once any modifier or event is on
+  const hasBonusXP = hasActiveModifiers(modifiers) || liveOps.length > 0;
+  const showXPSources = !comparisonEnabled && !monteCarlo && !analytical && hasBonusXP;
+
   // Calculate cumulative points data for line chart (day by day)
   const chartData = useMemo(() => {
-    const days = Array.from({ length: 365 }, (_, i) => i + 1);
-    const placementDistribution = currentProfile.distribution;
-    
-    // Seeded random number generator for consistent results (same as annotations)
-    const seedRandom = (seed: number) => {
-      const x = Math.sin(seed) * 10000;
-      return x - Math.floor(x);
-    };
-    
-    // Function to determine placement based on distribution and random roll (same as annotations)
-    const rollPlacement = (seed: number) => {
-      const roll = seedRandom(seed);
-      
-      if (roll < placementDistribution.first) return 'first';
-      if (roll < placementDistribution.first + placementDistribution.second) return 'second';
-      if (roll < placementDistribution.first + placementDistribution.second + placementDistribution.third) return 'third';
-      return 'participation';
-    };
-    
-    // Function to get points for a placement
-    const getPointsForPlacement = (placement: string, gameDuration: number) => {
-      switch (placement) {
-        case 'first': return firstPlacePointsPerDay * gameDuration;
-        case 'second': return secondPlacePointsPerDay * gameDuration;
-        case 'third': return thirdPlacePointsPerDay * gameDuration;
-        default: return participationPointsPerDay; // Participation doesn't scale with duration
-      }
-    };
-    
-    let cumulativePoints = 0;
-    const dailyPointsData: number[] = [];
-    const dailyLevelsData: number[] = [];
-    const labels: string[] = [];
-    
-    let weekCount = 0;
-    let monthCount = 0;
-    
-    days.forEach((day) => {
-      // Calculate which month this day falls in
-      const month = Math.floor((day - 1) / 30.44); // Approximate days per month
-      const dayOfWeek = day % 7;
-      const isMonthEnd = day % 30 === 0; // Monthly games complete every 30 days
-      
-      // Calculate games that complete this day and award points
-      let totalDailyPoints = 0;
-      
-      // Daily games complete every day (but players only participate 5 days/week)
-      if (dailyGames > 0) {
-        const weeklyParticipationRate = 5/7; // Players only play 5 days per week
-        const adjustedDailyGames = Math.round(dailyGames * weeklyParticipationRate * getSeasonalMultiplier(month) * getDailyVariation(day));
-        
-        // For daily games, use statistical distribution since they're not shown as lines
-        const dailyGamePoints = calculateGameTypePoints(adjustedDailyGames, placementDistribution, GAME_DURATIONS.daily);
-        totalDailyPoints += dailyGamePoints;
-      }
-      
-      // Weekly games complete every 7 days (every Sunday) - use actual simulated results
-      if (dayOfWeek === 0 && weeklyGames > 0) {
-        weekCount++;
-        const adjustedWeeklyGames = Math.round(weeklyGames * getSeasonalMultiplier(month) * getDailyVariation(day));
-        
-        // Simulate each weekly game individually
-        for (let gameIndex = 0; gameIndex < adjustedWeeklyGames; gameIndex++) {
-          const seed = (weekCount * 1000) + gameIndex + (selectedProfile === 'wins-everything' ? 1 : 
-                      selectedProfile === 'exceptional' ? 2 : 
-                      selectedProfile === 'average' ? 3 : 4);
-          const placement = rollPlacement(seed);
-          const gamePoints = getPointsForPlacement(placement, GAME_DURATIONS.weekly);
-          totalDailyPoints += gamePoints;
-        }
-      }
-      
-      // Monthly games complete every 30 days - use actual simulated results
-      if (isMonthEnd && monthlyGames > 0) {
-        monthCount++;
-        const adjustedMonthlyGames = Math.round(monthlyGames * getSeasonalMultiplier(month));
-        
-        // Simulate each monthly game individually
-        for (let gameIndex = 0; gameIndex < adjustedMonthlyGames; gameIndex++) {
-          const seed = (monthCount * 10000) + gameIndex + (selectedProfile === 'wins-everything' ? 100 : 
-                      selectedProfile === 'exceptional' ? 200 : 
-                      selectedProfile === 'average' ? 300 : 400);
-          const placement = rollPlacement(seed);
-          const gamePoints = getPointsForPlacement(placement, GAME_DURATIONS.monthly);
-          totalDailyPoints += gamePoints;
-        }
-      }
-      
-      cumulativePoints += totalDailyPoints;
-      dailyPointsData.push(cumulativePoints);
-      
-      // Calculate current level
-      const currentLevel = calculateLevelFromXP(cumulativePoints);
-      dailyLevelsData.push(currentLevel);
-      
-      // Create labels (show every 2 weeks for readability)
-      if (day % 14 === 1 || day === 1) {
-        const date = new Date(2024, 0, day);
-        labels.push(date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }));
-      } else {
-        labels.push('');
+    // Create labels (show every 2 weeks for readability)
+    const labels = chartDays.map(({ day, date }) => {
+      if (day % 14 === 1) {
+        return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', ...(isMultiSeason ? { year: '2-digit' as const } : {}) });
       }
+      return '';
     });
 
-    // Helper function to calculate points for a game type (used only for daily games now)
-    function calculateGameTypePoints(gameCount: number, distribution: { first: number; second: number; third: number; participation: number }, gameDuration: number): number {
-      const firstPlaceGames = Math.floor(gameCount * distribution.first);
-      const secondPlaceGames = Math.floor(gameCount * distribution.second);
-      const thirdPlaceGames = Math.floor(gameCount * distribution.third);
-      const participationGames = gameCount - firstPlaceGames - secondPlaceGames - thirdPlaceGames;
-      
-      return (
-        (firstPlaceGames * firstPlacePointsPerDay * gameDuration) +
-        (secondPlaceGames * secondPlacePointsPerDay * gameDuration) +
-        (thirdPlaceGames * thirdPlacePointsPerDay * gameDuration) +
-        (participationGames * participationPointsPerDay) // Participation doesn't scale with duration
-      );
+    // Faint backdrop showing how busy each day is, on its own hidden axis
+    const activityDataset = {
+      label: 'Player Activity',
+      data: activitySeries(activity, chartDays),
+      borderColor: 'rgba(156, 163, 175, 0.3)',
+      backgroundColor: 'rgba(156, 163, 175, 0.12)',
+      borderWidth: 1,
+      fill: true,
+      tension: 0.1,
+      pointRadius: 0,
+      pointHoverRadius: 0,
+      yAxisID: 'y2',
+      order: 1, // Drawn behind the other series
+    };
+
+    if (comparisonEnabled) {
+      // Solid XP line and dashed level line per compared profile
+      return {
+        labels,
+        datasets: comparedProfiles.filter((id) => profiles[id]).flatMap((id) => [
+          {
+            label: `${profiles[id].name} · XP`,
+            data: profileSimulations[id].cumulativeXP,
+            borderColor: comparisonColors[id],
+            backgroundColor: comparisonColors[id],
+            borderWidth: 2,
+            fill: false,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+            yAxisID: 'y',
+          },
+          {
+            label: `${profiles[id].name} · Level`,
+            data: profileSimulations[id].levels,
+            borderColor: comparisonColors[id],
+            backgroundColor: comparisonColors[id],
+            borderWidth: 2,
+            borderDash: [6, 4],
+            fill: false,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+            yAxisID: 'y1',
+          },
+        ]).concat(activityDataset),
+      };
     }
-    
-    function getSeasonalMultiplier(month: number): number {
-      return month >= 5 && month <= 7 ? 0.8 : month >= 10 || month <= 1 ? 1.2 : 1.0;
+
+    // Lower and upper bounds of a shaded band drawn around a central line
+    const bandDataset = (label: string, data: number[], color: string, yAxisID: string, fill: string | boolean) => ({
+      label,
+      data,
+      borderColor: `rgba(${color}, 0.3)`,
+      backgroundColor: `rgba(${color}, 0.15)`,
+      borderWidth: 1,
+      fill,
+      tension: 0.1,
+      pointRadius: 0,
+      pointHoverRadius: 0,
+      yAxisID,
+    });
+
+    if (monteCarlo) {
+      // p10 and p90 bound a shaded band around the median line for each series
+      return {
+        labels,
+        datasets: [
+          bandDataset('Cumulative XP Points (p10)', monteCarlo.xp.p10, '59, 130, 246', 'y', false),
+          bandDataset('Cumulative XP Points (p90)', monteCarlo.xp.p90, '59, 130, 246', 'y', '-1'),
+          {
+            label: 'Cumulative XP Points (p50)',
+            data: monteCarlo.xp.p50,
+            borderColor: 'rgba(59, 130, 246, 1)',
+            backgroundColor: 'rgba(59, 130, 246, 0.1)',
+            borderWidth: 2,
+            fill: false,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+            yAxisID: 'y',
+          },
+          bandDataset('Player Level (p10)', monteCarlo.levels.p10, '34, 197, 94', 'y1', false),
+          bandDataset('Player Level (p90)', monteCarlo.levels.p90, '34, 197, 94', 'y1', '-1'),
+          {
+            label: 'Player Level (p50)',
+            data: monteCarlo.levels.p50,
+            borderColor: 'rgba(34, 197, 94, 1)',
+            backgroundColor: 'rgba(34, 197, 94, 0.1)',
+            borderWidth: 2,
+            fill: false,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+            yAxisID: 'y1',
+          },
+          activityDataset,
+        ],
+      };
     }
-    
-    function getDailyVariation(day: number): number {
-      return 0.85 + (Math.sin(day * 0.1) * 0.15);
+
+    if (analytical) {
+      // Mean ± one standard deviation for XP, and the levels those XP totals reach
+      return {
+        labels,
+        datasets: [
+          bandDataset('Cumulative XP Points (−σ)', analytical.xp.mean.map((mean, i) => Math.max(0, mean - analytical.xp.stdDev[i])), '59, 130, 246', 'y', false),
+          bandDataset('Cumulative XP Points (+σ)', analytical.xp.mean.map((mean, i) => mean + analytical.xp.stdDev[i]), '59, 130, 246', 'y', '-1'),
+          {
+            label: 'Cumulative XP Points (mean)',
+            data: analytical.xp.mean,
+            borderColor: 'rgba(59, 130, 246, 1)',
+            backgroundColor: 'rgba(59, 130, 246, 0.1)',
+            borderWidth: 2,
+            fill: false,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+            yAxisID: 'y',
+          },
+          bandDataset('Player Level (−σ)', analytical.levels.low, '34, 197, 94', 'y1', false),
+          bandDataset('Player Level (+σ)', analytical.levels.high, '34, 197, 94', 'y1', '-1'),
+          {
+            label: 'Player Level (mean)',
+            data: analytical.levels.mean,
+            borderColor: 'rgba(34, 197, 94, 1)',
+            backgroundColor: 'rgba(34, 197, 94, 0.1)',
+            borderWidth: 2,
+            fill: false,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+            yAxisID: 'y1',
+          },
+          activityDataset,
+        ],
+      };
     }
 
-    return {
-      labels,
-      datasets: [
-        {
-          label: 'Cumulative XP Points',
-          data: dailyPointsData,
-          borderColor: 'rgba(59, 130, 246, 1)',
-          backgroundColor: 'rgba(59, 130, 246, 0.1)',
-          borderWidth: 2,
-          fill: true,
+    // With modifiers on, cumulative XP is drawn as stacked bands, one per source that earned anything
+    const xpDatasets = showXPSources
+      ? xpSources.filter((source) => simulation.dailyXPBySource[source].some((xp) => xp > 0)).map((source, index) => {
+        let cumulative = 0;
+        return {
+          label: `${xpSourceLabels[source]} XP`,
+          data: simulation.dailyXPBySource[source].map((xp) => (cumulative += xp)),
+          borderColor: xpSourceColors[source],
+          backgroundColor: xpSourceColors[source].replace('rgb', 'rgba').replace(')', ', 0.2)'),
+          borderWidth: 1,
+          fill: index === 0 ? 'origin' : '-1',
           tension: 0.1,
           pointRadius: 0,
           pointHoverRadius: 4,
           yAxisID: 'y',
-        },
+        };
+      })
+      : [{
+        label: 'Cumulative XP Points',
+        data: simulation.cumulativeXP,
+        borderColor: 'rgba(59, 130, 246, 1)',
+        backgroundColor: 'rgba(59, 130, 246, 0.1)',
+        borderWidth: 2,
+        fill: true,
+        tension: 0.1,
+        pointRadius: 0,
+        pointHoverRadius: 4,
+        yAxisID: 'y',
+      }];
+
+    return {
+      labels,
+      datasets: [
+        ...xpDatasets,
         {
           label: 'Player Level',
-          data: dailyLevelsData,
+          data: simulation.levels,
           borderColor: 'rgba(34, 197, 94, 1)',
           backgroundColor: 'rgba(34, 197, 94, 0.1)',
           borderWidth: 2,
@@ -319,139 +654,188 @@ export default function XPCalculator() {
           pointHoverRadius: 4,
           yAxisID: 'y1',
         },
+        activityDataset,
       ],
     };
-  }, [dailyGames, weeklyGames, monthlyGames, firstPlacePointsPerDay, secondPlacePointsPerDay, thirdPlacePointsPerDay, participationPointsPerDay, selectedProfile, calculateLevelFromXP, currentProfile.distribution]);
+  }, [simulation, chartDays, isMultiSeason, activity, monteCarlo, analytical, comparisonEnabled, comparedProfiles, profiles, profileSimulations, comparisonColors, showXPSources]);
 
   // Generate game completion annotations
   const generateGameAnnotations = useMemo(() => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const annotations: any = {};
-    const placementDistribution = currentProfile.distribution;
-    
-    // Seeded random number generator for consistent results
-    const seedRandom = (seed: number) => {
-      const x = Math.sin(seed) * 10000;
-      return x - Math.floor(x);
-    };
-    
-    // Function to determine placement based on distribution and random roll
-    const rollPlacement = (seed: number) => {
-      const roll = seedRandom(seed);
-      
-      if (roll < placementDistribution.first) return 'first';
-      if (roll < placementDistribution.first + placementDistribution.second) return 'second';
-      if (roll < placementDistribution.first + placementDistribution.second + placementDistribution.third) return 'third';
-      return 'participation';
-    };
-    
-    const getPlacementColor = (placement: string) => {
-      switch (placement) {
-        case 'first': return 'rgba(255, 215, 0, 0.5)';   // Gold with 50% opacity
-        case 'second': return 'rgba(192, 192, 192, 0.5)';  // Silver with 50% opacity
-        case 'third': return 'rgba(205, 127, 50, 0.5)';   // Bronze with 50% opacity
-        default: return 'rgba(156, 163, 175, 0.5)';        // Gray with 50% opacity
-      }
-    };
-    
-    // Add weekly game completion lines (dashed)
-    if (weeklyGames > 0) {
-      let weekCount = 0;
-      for (let day = 7; day <= 365; day += 7) {
-        weekCount++;
-        
-        // For each weekly game scheduled, roll for placement
-        for (let gameIndex = 0; gameIndex < weeklyGames; gameIndex++) {
-          const seed = (weekCount * 1000) + gameIndex + (selectedProfile === 'wins-everything' ? 1 : 
-                      selectedProfile === 'exceptional' ? 2 : 
-                      selectedProfile === 'average' ? 3 : 4); // Different seeds per profile
-          const placement = rollPlacement(seed);
-          const color = getPlacementColor(placement);
-          
-          annotations[`weekly_${day}_${gameIndex}`] = {
-            type: 'line',
-            xMin: day - 1, // Convert to 0-indexed
-            xMax: day - 1,
-            borderColor: color,
-            borderWidth: 0.5,
-            borderDash: [5, 5],
-            label: {
-              content: placement.charAt(0).toUpperCase(),
-              enabled: false,
-            }
-          };
+
+    // One line per game the simulation rolled, colored by the placement it awarded, for types with a marker style
+    const types = new Map(gameTypes.map((type) => [type.id, type]));
+    simulation.events.forEach(({ day, gameType, gameIndex, placement, liveOpsEvent }) => {
+      const type = types.get(gameType);
+      const tier = tiers.find((t) => t.id === placement);
+      if (!type || type.annotation === 'none' || !tier) return;
+      const style = annotationStyles[type.annotation];
+
+      annotations[`${type.id}_${day}_${liveOpsEvent ?? ''}_${gameIndex}`] = {
+        type: 'line',
+        xMin: day - 1,
+        xMax: day - 1,
+        borderColor: tierColor(tier, 0.5),
+        borderWidth: style.borderWidth,
+        borderDash: style.borderDash,
+        label: {
+          content: tier.icon,
+          enabled: false,
         }
-      }
-    }
-    
-    // Add monthly game completion lines (solid)
-    if (monthlyGames > 0) {
-      let monthCount = 0;
-      for (let day = 30; day <= 365; day += 30) {
-        monthCount++;
-        
-        // For each monthly game scheduled, roll for placement
-        for (let gameIndex = 0; gameIndex < monthlyGames; gameIndex++) {
-          const seed = (monthCount * 10000) + gameIndex + (selectedProfile === 'wins-everything' ? 100 : 
-                      selectedProfile === 'exceptional' ? 200 : 
-                      selectedProfile === 'average' ? 300 : 400); // Different seeds per profile
-          const placement = rollPlacement(seed);
-          const color = getPlacementColor(placement);
-          
-          annotations[`monthly_${day}_${gameIndex}`] = {
-            type: 'line',
-            xMin: day - 1, // Convert to 0-indexed
-            xMax: day - 1,
-            borderColor: color,
-            borderWidth: 1,
-            label: {
-              content: placement.charAt(0).toUpperCase(),
-              enabled: false,
-            }
-          };
+      };
+    });
+
+    return annotations;
+  }, [gameTypes, tiers, simulation]);
+
+  // Labeled lines on the days the selected profile reaches each milestone
+  const milestoneAnnotations = useMemo(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const annotations: any = {};
+    milestoneReaches.forEach(({ level, reward, day }, index) => {
+      if (day === null) return;
+      annotations[`milestone_${level}_${index}`] = {
+        type: 'line',
+        xMin: day - 1,
+        xMax: day - 1,
+        borderColor: 'rgba(99, 102, 241, 0.8)',
+        borderWidth: 1.5,
+        label: {
+          display: true,
+          content: `Lv ${level}: ${reward}`,
+          position: 'end',
+          backgroundColor: 'rgba(99, 102, 241, 0.85)',
+          font: { size: 10 },
+        },
+      };
+    });
+    return annotations;
+  }, [milestoneReaches]);
+
+  // Clamped and decreasing levels as bands on the level axis; bursts and dead zones on the days they happen
+  const curveHealthAnnotations = useMemo(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const curve: any = {};
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const pacing: any = {};
+    const tint = (color: string, alpha: number) => color.replace('rgb', 'rgba').replace(')', `, ${alpha})`);
+    curveWarnings.forEach(({ kind, levels }, index) => {
+      if (!levels) return;
+      curve[`health_${kind}_${index}`] = {
+        type: 'box',
+        yScaleID: 'y1',
+        yMin: levels[0] - 1,
+        yMax: levels[1],
+        backgroundColor: tint(curveWarningColors[kind], 0.12),
+        borderWidth: 0,
+        drawTime: 'beforeDatasetsDraw',
+      };
+    });
+    pacingWarnings.forEach(({ kind, days }, index) => {
+      if (!days) return;
+      pacing[`health_${kind}_${index}`] = kind === 'burst'
+        ? {
+          type: 'line',
+          xMin: days[0],
+          xMax: days[0],
+          borderColor: tint(curveWarningColors[kind], 0.8),
+          borderWidth: 2,
         }
-      }
-    }
-    
+        : {
+          type: 'box',
+          xMin: days[0] - 0.5,
+          xMax: days[1] + 0.5,
+          backgroundColor: tint(curveWarningColors[kind], 0.1),
+          borderWidth: 0,
+          drawTime: 'beforeDatasetsDraw',
+        };
+    });
+    return { curve, pacing };
+  }, [curveWarnings, pacingWarnings]);
+
+  // Shaded boxes for live-ops events; they apply to every profile, so they stay visible while comparing
+  const liveOpsAnnotations = useMemo(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const annotations: any = {};
+    liveOps.forEach((event, index) => {
+      const range = eventDayRange(event, seasonDays);
+      if (!range) return;
+      annotations[`liveOps_${index}`] = {
+        type: 'box',
+        xMin: range[0] - 0.5,
+        xMax: range[1] + 0.5,
+        yScaleID: 'y',
+        backgroundColor: `${event.color}22`,
+        borderWidth: 0,
+        drawTime: 'beforeDatasetsDraw',
+        label: {
+          display: true,
+          content: event.name,
+          position: { x: 'center', y: 'start' },
+          color: event.color,
+          font: { size: 10 },
+        },
+      };
+    });
     return annotations;
-  }, [weeklyGames, monthlyGames, currentProfile, selectedProfile]);
+  }, [liveOps, seasonDays]);
 
   const chartOptions = {
     responsive: true,
     plugins: {
       legend: {
         position: 'top' as const,
+        labels: {
+          // Band bounds are drawn but not listed; the p50 or mean entry stands for the whole band
+          filter: (item: { text: string }) => !/\((p10|p90|[−+]σ)\)$/.test(item.text),
+        },
       },
       title: {
         display: true,
-        text: `XP & Level Progress Over the Year - ${currentProfile.name} Player`,
+        text: comparisonEnabled
+          ? 'XP & Level Progress Over the Year - Profile Comparison'
+          : monteCarlo
+            ? `XP & Level Progress Over the Year - ${currentProfile.name} Player (${monteCarlo.runs.toLocaleString()} runs, p10–p90)`
+            : analytical
+              ? `XP & Level Progress Over ${isMultiSeason ? `${analyticalSeasons} Seasons` : 'the Year'} - ${currentProfile.name} Player (expected, mean ± σ)`
+              : `XP & Level Progress Over the Year - ${currentProfile.name} Player`,
       },
       tooltip: {
         callbacks: {
           title: function(context: { dataIndex: number }[]) {
-            const dayOfYear = context[0].dataIndex + 1;
-            const date = new Date(2024, 0, dayOfYear);
+            const { day, date } = chartDays[context[0].dataIndex];
             const dateStr = date.toLocaleDateString('en-US', { 
+              weekday: 'short',
               month: 'short', 
-              day: 'numeric' 
+              day: 'numeric',
+              year: 'numeric'
             });
-            return [`Day ${dayOfYear} of Year`, dateStr];
+            return [isMultiSeason ? `Day ${day}` : `Day ${day} of Season`, dateStr];
           },
-          label: function(context: { dataset: { label?: string }; parsed: { y: number } }) {
+          label: function(context: { dataset: { label?: string; yAxisID?: string }; parsed: { y: number } }) {
             const datasetLabel = context.dataset.label || '';
             const value = context.parsed.y;
             
-            if (datasetLabel === 'Cumulative XP Points') {
-              return `${datasetLabel}: ${value.toLocaleString()} XP`;
-            } else if (datasetLabel === 'Player Level') {
-              return `${datasetLabel}: ${value}`;
+            if (context.dataset.yAxisID === 'y') {
+              return `${datasetLabel}: ${Math.round(value).toLocaleString()} XP`;
+            } else if (context.dataset.yAxisID === 'y1') {
+              // Analytical levels are fractional
+              return `${datasetLabel}: ${Number.isInteger(value) ? value : value.toFixed(1)}`;
+            } else if (context.dataset.yAxisID === 'y2') {
+              return `${datasetLabel}: ${value.toFixed(2)}× daily games`;
             }
             return `${datasetLabel}: ${value}`;
           }
         }
       },
       annotation: {
-        annotations: generateGameAnnotations
+        // Placement and milestone markers belong to a single profile, so they are hidden while comparing
+        annotations: {
+          ...(comparisonEnabled ? {} : { ...generateGameAnnotations, ...milestoneAnnotations, ...curveHealthAnnotations.pacing }),
+          ...curveHealthAnnotations.curve,
+          ...liveOpsAnnotations,
+        }
       }
     },
     scales: {
@@ -460,6 +844,7 @@ export default function XPCalculator() {
         display: true,
         position: 'left' as const,
         beginAtZero: true,
+        stacked: showXPSources,
         title: {
           display: true,
           text: 'Cumulative XP Points',
@@ -484,10 +869,15 @@ export default function XPCalculator() {
           drawOnChartArea: false,
         },
       },
+      y2: {
+        type: 'linear' as const,
+        display: false,
+        beginAtZero: true,
+      },
       x: {
         title: {
           display: true,
-          text: 'Day of Year',
+          text: 'Season Date',
         },
         ticks: {
           maxTicksLimit: 20,
@@ -502,20 +892,27 @@ export default function XPCalculator() {
 
   // Calculate yearly stats
   const totalGamesPerYear = useMemo(() => {
-    const dailyTotal = dailyGames * 365;
-    const weeklyTotal = weeklyGames * 52;
-    const monthlyTotal = monthlyGames * 12;
-    return dailyTotal + weeklyTotal + monthlyTotal;
-  }, [dailyGames, weeklyGames, monthlyGames]);
-
-  const totalPointsPerYear = chartData.datasets[0].data[364] || 0; // Last day's cumulative total
-  const finalLevel = chartData.datasets[1].data[364] || 1; // Last day's level
+    return gameTypes.reduce((total, type) => {
+      const completions = completionCycles(type, seasonDays).filter((cycle) => cycle > 0).length;
+      return total + Math.max(0, type.gamesPerCycle) * completions;
+    }, 0);
+  }, [gameTypes, seasonDays]);
+
+  const annotatedGameTypes = gameTypes.filter((type) => type.annotation !== 'none');
+
+  const lastDay = seasonDays.length - 1;
+  const totalPointsPerYear = Math.round(simulation.cumulativeXP[lastDay] || 0); // Last day's cumulative total, whole in expected-value mode too
+  const finalLevel = simulation.levels[lastDay] || 1; // Last day's level
   const avgPointsPerMonth = Math.round(totalPointsPerYear / 12);
-  const avgPointsPerGame = Math.round(totalPointsPerYear / totalGamesPerYear);
-  const avgPointsPerDay = Math.round(totalPointsPerYear / 365);
+  // Games the player took part in, after participation and live-ops extras; fractional in expected-value mode
+  const gamesPlayed = Object.values(simulation.breakdown)
+    .flatMap((byTier) => Object.values(byTier))
+    .reduce((total, { games }) => total + games, 0);
+  const avgPointsPerGame = gamesPlayed > 0 ? Math.round(totalPointsPerYear / gamesPlayed) : null;
+  const avgPointsPerDay = Math.round(totalPointsPerYear / seasonDays.length);
   
   // Calculate current level progress
-  const levelProgress = calculateXPProgress(totalPointsPerYear);
+  const levelProgress = levelScale.progress(totalPointsPerYear);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-8">
@@ -558,31 +955,19 @@ export default function XPCalculator() {
                 Game Completion Markers
               </h4>
               <div className="flex flex-wrap gap-8 text-sm justify-center">
-                <div className="flex items-center gap-2">
-                  <div className="w-6 h-0.5 border-t-2 border-dashed border-gray-400"></div>
-                  <span className="text-gray-600 dark:text-gray-400">Weekly Games (Every Sunday)</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-6 h-0.5 border-t-2 border-gray-400"></div>
-                  <span className="text-gray-600 dark:text-gray-400">Monthly Games (Every 30 Days)</span>
-                </div>
-                <div className="flex items-center gap-4">
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-0.5" style={{ backgroundColor: '#FFD700' }}></div>
-                    <span className="text-gray-600 dark:text-gray-400">🥇 1st</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-0.5" style={{ backgroundColor: '#C0C0C0' }}></div>
-                    <span className="text-gray-600 dark:text-gray-400">🥈 2nd</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-0.5" style={{ backgroundColor: '#CD7F32' }}></div>
-                    <span className="text-gray-600 dark:text-gray-400">🥉 3rd</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-0.5" style={{ backgroundColor: '#9CA3AF' }}></div>
-                    <span className="text-gray-600 dark:text-gray-400">🎮 Participation</span>
+                {annotatedGameTypes.map((type) => (
+                  <div key={type.id} className="flex items-center gap-2">
+                    <div className={`w-6 h-0.5 border-t-2 ${ANNOTATION_LEGEND_CLASSES[type.annotation]} border-gray-400`}></div>
+                    <span className="text-gray-600 dark:text-gray-400">{type.name} ({cadenceLabel(type.cadence, weeklyEndDay)})</span>
                   </div>
+                ))}
+                <div className="flex flex-wrap items-center gap-4">
+                  {tiers.map((tier) => (
+                    <div key={tier.id} className="flex items-center gap-2">
+                      <div className="w-4 h-0.5" style={{ backgroundColor: tier.color }}></div>
+                      <span className="text-gray-600 dark:text-gray-400">{tier.icon} {tier.name}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
@@ -598,18 +983,93 @@ export default function XPCalculator() {
           <p className="text-lg text-gray-600 dark:text-gray-300">
             Game Platform Analytics & Point Distribution
           </p>
+          <div className="mt-4 flex flex-wrap justify-center gap-2">
+            <button
+              onClick={copyScenarioLink}
+              disabled={scenarioProblem !== undefined}
+              className="px-4 py-2 bg-indigo-500 hover:bg-indigo-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title={scenarioProblem ? 'Fix the problem below to share this scenario' : 'Copy a link that reproduces every input on this page'}
+            >
+              {linkCopied ? '✓ Link copied' : '🔗 Copy link'}
+            </button>
+            <ScenarioFiles
+              scenario={scenario}
+              problem={scenarioProblem}
+              onImport={(imported) => {
+                applyScenario(imported, profiles);
+                setScenarioError(null);
+              }}
+              onError={setScenarioError}
+            />
+          </div>
+          {scenarioProblem && (
+            <p className="mt-3 text-sm text-amber-700 dark:text-amber-400">
+              Links and exports are paused until this is fixed: {scenarioProblem}
+            </p>
+          )}
+          {linkFallback && (
+            <div className="mt-3 mx-auto max-w-xl flex items-center gap-2 text-sm">
+              <span className="text-gray-600 dark:text-gray-400 whitespace-nowrap">Copy this link:</span>
+              <input
+                readOnly
+                value={linkFallback}
+                onFocus={(e) => e.target.select()}
+                autoFocus
+                className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md font-mono text-xs dark:bg-gray-700 dark:text-white"
+                aria-label="Scenario link"
+              />
+              <button
+                onClick={() => setLinkFallback(null)}
+                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 transition-colors"
+                title="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+          )}
         </div>
 
+        {/* Unsaved Scenario Profiles */}
+        {hasUnsavedScenarioProfiles && (
+          <div className="mb-8 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 rounded-lg flex items-center justify-between gap-4">
+            <div className="text-sm text-amber-800 dark:text-amber-300">
+              Player profiles from this scenario, and edits to them, are only kept for this session. Saving replaces your stored profiles that have the same ids.
+            </div>
+            <button
+              onClick={() => setHasUnsavedScenarioProfiles(false)}
+              className="px-3 py-1 bg-amber-500 hover:bg-amber-600 text-white rounded-md text-sm whitespace-nowrap transition-colors"
+            >
+              Save profiles
+            </button>
+          </div>
+        )}
+
+        {/* Scenario Load Error */}
+        {scenarioError && (
+          <div className="mb-8 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg flex items-start justify-between gap-4">
+            <div className="text-sm text-red-700 dark:text-red-300">
+              <span className="font-semibold">Couldn&apos;t load the scenario:</span> {scenarioError}
+            </div>
+            <button
+              onClick={() => setScenarioError(null)}
+              className="text-red-500 hover:text-red-700 dark:text-red-400 transition-colors"
+              title="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
         {/* Player Profile Buttons */}
         <div className="mb-8">
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 text-center">
             Select Player Profile
           </h2>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            {Object.entries(playerProfiles).map(([key, profile]) => (
+            {Object.entries(profiles).map(([key, profile]) => (
               <button
                 key={key}
-                onClick={() => setSelectedProfile(key as PlayerProfile)}
+                onClick={() => setSelectedProfile(key)}
                 className={`
                   p-4 rounded-lg border-2 transition-all duration-200 text-center
                   ${selectedProfile === key 
@@ -624,6 +1084,26 @@ export default function XPCalculator() {
               </button>
             ))}
           </div>
+          <div className="text-center mt-4">
+            <button
+              onClick={() => setShowProfileEditor(!showProfileEditor)}
+              className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-400 rounded-lg text-sm transition-colors"
+            >
+              ✏️ {showProfileEditor ? 'Hide Profile Editor' : 'Manage Profiles'}
+            </button>
+          </div>
+          {showProfileEditor && (
+            <ProfileEditor
+              profiles={profiles}
+              tiers={tiers}
+              selectedProfile={selectedProfile in profiles ? selectedProfile : Object.keys(profiles)[0]}
+              onChange={(updatedProfiles, updatedSelection) => {
+                setProfiles(updatedProfiles);
+                setSelectedProfile(updatedSelection);
+              }}
+              onClose={() => setShowProfileEditor(false)}
+            />
+          )}
         </div>
 
         <div className="grid gap-8" style={{ gridTemplateColumns: showLevelList ? '1fr 2fr 1fr' : '1fr 3fr' }}>
@@ -635,147 +1115,126 @@ export default function XPCalculator() {
               </h2>
               
               <div className="space-y-4">
-                <div>
-                  <label 
-                    htmlFor="dailyGames" 
-                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-                  >
-                    Daily Games (complete each day)
-                  </label>
-                  <input
-                    type="number"
-                    id="dailyGames"
-                    min="0"
-                    max="20"
-                    value={dailyGames}
-                    onChange={(e) => setDailyGames(Number(e.target.value))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                  />
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    Players participate 5 days per week (5/7 rate)
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label 
+                      htmlFor="seasonStartDate" 
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                    >
+                      Season Start
+                    </label>
+                    <input
+                      type="date"
+                      id="seasonStartDate"
+                      value={seasonStartDate}
+                      onChange={(e) => {
+                        // Ignore the empty value the picker reports while a date is being typed
+                        if (parseISODate(e.target.value)) setSeasonStartDate(e.target.value);
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                  <div>
+                    <label 
+                      htmlFor="weeklyEndDay" 
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                    >
+                      Weekly Games End On
+                    </label>
+                    <select
+                      id="weeklyEndDay"
+                      value={weeklyEndDay}
+                      onChange={(e) => setWeeklyEndDay(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                    >
+                      {WEEKDAY_NAMES.map((name, weekday) => (
+                        <option key={name} value={weekday}>{name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                    The season runs one calendar year ({seasonDays.length} days) from the start date
                   </p>
                 </div>
 
-                <div>
-                  <label 
-                    htmlFor="weeklyGames" 
-                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-                  >
-                    Weekly Games (complete every Sunday)
-                  </label>
-                  <input
-                    type="number"
-                    id="weeklyGames"
-                    min="0"
-                    max="50"
-                    value={weeklyGames}
-                    onChange={(e) => setWeeklyGames(Number(e.target.value))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                  />
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    Players participate in all weekly games
-                  </p>
-                </div>
+                <GameTypeEditor gameTypes={gameTypes} weeklyEndDay={weeklyEndDay} onChange={updateGameTypes} />
 
-                <div>
-                  <label 
-                    htmlFor="monthlyGames" 
-                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-                  >
-                    Monthly Games (complete every 30 days)
-                  </label>
-                  <input
-                    type="number"
-                    id="monthlyGames"
-                    min="0"
-                    max="20"
-                    value={monthlyGames}
-                    onChange={(e) => setMonthlyGames(Number(e.target.value))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                  />
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    Players participate in all monthly games
+                <div className="grid grid-cols-2 gap-4 pt-4 border-t border-gray-200 dark:border-gray-600">
+                  <div>
+                    <label
+                      htmlFor="opponentMean"
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                    >
+                      Opponent Rating
+                    </label>
+                    <input
+                      type="number"
+                      id="opponentMean"
+                      step="25"
+                      value={opponents.mean}
+                      onChange={(e) => setOpponents({ ...opponents, mean: Number(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="opponentSpread"
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                    >
+                      Rating Spread (σ)
+                    </label>
+                    <input
+                      type="number"
+                      id="opponentSpread"
+                      min="0"
+                      step="25"
+                      value={opponents.stdDev}
+                      onChange={(e) => setOpponents({ ...opponents, stdDev: Math.max(0, Number(e.target.value)) })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                    Lobbies are filled from this opponent pool for profiles on the skill-rating model
                   </p>
                 </div>
               </div>
 
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mt-8 mb-4">
-                Points per Day by Placement
-              </h3>
-              
-              <div className="space-y-4">
-                <div>
-                  <label 
-                    htmlFor="firstPlace" 
-                    className="block text-sm font-medium text-yellow-600 dark:text-yellow-400 mb-2"
-                  >
-                    🥇 1st Place (points/day)
-                  </label>
-                  <input
-                    type="number"
-                    id="firstPlace"
-                    min="0"
-                    max="100"
-                    value={firstPlacePointsPerDay}
-                    onChange={(e) => setFirstPlacePointsPerDay(Number(e.target.value))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 dark:bg-gray-700 dark:text-white"
-                  />
-                </div>
+              <div className="flex items-center justify-between mt-8 mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Rewards by Placement
+                </h3>
+                <button
+                  onClick={() => setShowTierEditor(!showTierEditor)}
+                  className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-400 rounded transition-colors"
+                >
+                  {showTierEditor ? 'Done' : 'Edit Tiers'}
+                </button>
+              </div>
 
-                <div>
-                  <label 
-                    htmlFor="secondPlace" 
-                    className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-2"
-                  >
-                    🥈 2nd Place (points/day)
-                  </label>
-                  <input
-                    type="number"
-                    id="secondPlace"
-                    min="0"
-                    max="75"
-                    value={secondPlacePointsPerDay}
-                    onChange={(e) => setSecondPlacePointsPerDay(Number(e.target.value))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 dark:bg-gray-700 dark:text-white"
-                  />
-                </div>
+              {showTierEditor ? (
+                <TierEditor
+                  tiers={tiers}
+                  profiles={profiles}
+                  gameTypes={gameTypes}
+                  onChange={(updatedTiers, updatedProfiles, updatedGameTypes) => {
+                    setTiers(updatedTiers);
+                    setProfiles(updatedProfiles);
+                    updateGameTypes(updatedGameTypes);
+                  }}
+                />
+              ) : (
+                <RewardTableEditor gameTypes={gameTypes} tiers={tiers} onChange={updateGameTypes} />
+              )}
 
-                <div>
-                  <label 
-                    htmlFor="thirdPlace" 
-                    className="block text-sm font-medium text-amber-600 dark:text-amber-400 mb-2"
-                  >
-                    🥉 3rd Place (points/day)
-                  </label>
-                  <input
-                    type="number"
-                    id="thirdPlace"
-                    min="0"
-                    max="50"
-                    value={thirdPlacePointsPerDay}
-                    onChange={(e) => setThirdPlacePointsPerDay(Number(e.target.value))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500 dark:bg-gray-700 dark:text-white"
-                  />
-                </div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mt-8 mb-4">
+                XP Modifiers
+              </h3>
+              <ModifierEditor modifiers={modifiers} winTierName={tiers[0].name} onChange={setModifiers} />
 
-                <div>
-                  <label 
-                    htmlFor="participation" 
-                    className="block text-sm font-medium text-green-600 dark:text-green-400 mb-2"
-                  >
-                    🎮 Participation (points/day)
-                  </label>
-                  <input
-                    type="number"
-                    id="participation"
-                    min="0"
-                    max="25"
-                    value={participationPointsPerDay}
-                    onChange={(e) => setParticipationPointsPerDay(Number(e.target.value))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 dark:bg-gray-700 dark:text-white"
-                  />
-                </div>
-              </div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mt-8 mb-4">
+                Live-Ops Events
+              </h3>
+              <LiveOpsEditor events={liveOps} gameTypes={gameTypes} seasonStartDate={seasonStartDate} onChange={setLiveOps} />
 
               {/* Level Progress */}
               <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-600">
@@ -839,7 +1298,7 @@ export default function XPCalculator() {
                   <div className="flex justify-between">
                     <span className="text-gray-600 dark:text-gray-400">Avg/Game:</span>
                     <span className="font-semibold text-gray-900 dark:text-white">
-                      {avgPointsPerGame.toLocaleString()}
+                      {avgPointsPerGame?.toLocaleString() ?? '—'}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -849,6 +1308,92 @@ export default function XPCalculator() {
                     </span>
                   </div>
                 </div>
+
+                {/* XP earned from each modifier */}
+                {hasBonusXP && (
+                  <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-600">
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                      XP by Source
+                    </h4>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {xpSources.map((source) => {
+                          const xp = simulation.dailyXPBySource[source].reduce((total, points) => total + points, 0);
+                          return (
+                            <tr key={source} className="border-t border-gray-100 dark:border-gray-700 first:border-t-0">
+                              <td className="py-1 text-gray-600 dark:text-gray-400">
+                                <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ backgroundColor: xpSourceColors[source] }}></span>
+                                {xpSourceLabels[source]}
+                              </td>
+                              <td className="py-1 text-right font-mono text-gray-900 dark:text-white">{Math.round(xp).toLocaleString()}</td>
+                              <td className="py-1 text-right font-mono text-gray-600 dark:text-gray-400 w-16">
+                                {totalPointsPerYear > 0 ? Math.round((xp / totalPointsPerYear) * 1000) / 10 : 0}%
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {/* XP earned by game type and placement */}
+                <XPBreakdownTable gameTypes={gameTypes} tiers={tiers} breakdown={simulation.breakdown} />
+
+                {/* Monte Carlo final level distribution */}
+                {monteCarlo && (
+                  <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-600">
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                      Final Level Distribution ({monteCarlo.runs.toLocaleString()} runs)
+                    </h4>
+                    <div className="grid grid-cols-3 gap-2 text-center text-xs mb-3">
+                      {[10, 50, 90].map((p) => (
+                        <div key={p} className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded">
+                          <div className="font-semibold text-blue-600 dark:text-blue-400">p{p}</div>
+                          <div className="text-gray-900 dark:text-white">
+                            Level {percentile(monteCarlo.finalLevels, p)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    {(() => {
+                      const bins = histogram(monteCarlo.finalLevels, 12);
+                      const maxCount = Math.max(...bins.map((bin) => bin.count));
+                      return (
+                        <div className="flex items-end gap-0.5 h-20 mb-1">
+                          {bins.map((bin) => (
+                            <div
+                              key={bin.from}
+                              className="flex-1 bg-blue-400 dark:bg-blue-500 rounded-t"
+                              style={{ height: `${(bin.count / maxCount) * 100}%` }}
+                              title={`Level ${bin.from}${bin.to > bin.from ? `–${bin.to}` : ''}: ${bin.count.toLocaleString()} runs`}
+                            ></div>
+                          ))}
+                        </div>
+                      );
+                    })()}
+                    <div className="flex justify-between text-xs text-gray-500 dark:text-gray-500 mb-3">
+                      <span>L{monteCarlo.finalLevels[0]}</span>
+                      <span>L{monteCarlo.finalLevels[monteCarlo.finalLevels.length - 1]}</span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <label htmlFor="targetLevel" className="text-gray-600 dark:text-gray-400">
+                        Chance to reach level
+                      </label>
+                      <input
+                        type="number"
+                        id="targetLevel"
+                        min="1"
+                        value={targetLevel}
+                        onChange={(e) => setTargetLevel(Number(e.target.value))}
+                        className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                      />
+                      <span className="font-semibold text-gray-900 dark:text-white">
+                        {Math.round(probabilityOfReaching(monteCarlo, targetLevel) * 100)}%
+                      </span>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -857,7 +1402,8 @@ export default function XPCalculator() {
           <div className="">
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 relative">
               {/* Loading Overlay */}
-              {isCalculating && (
+              {/* Analytical bands follow the curve live, so there is nothing to wait for */}
+              {isCalculating && !analytical && (
                 <div className="absolute inset-0 bg-white/80 dark:bg-gray-800/80 rounded-lg flex items-center justify-center z-20">
                   <div className="flex flex-col items-center gap-3">
                     <div className="w-8 h-8 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
@@ -878,101 +1424,210 @@ export default function XPCalculator() {
                 Fullscreen
               </button>
               <Line data={chartData} options={chartOptions} />
-            </div>
-            
-            {/* Mathematical Formula Display */}
-            <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                Polynomial Leveling Formula
-              </h3>
-              
-              {/* Polynomial Coefficients */}
-              <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-                <div>
-                  <label 
-                    htmlFor="polyA" 
-                    className="block text-sm font-medium text-purple-600 dark:text-purple-400 mb-2"
-                  >
-                    📈 A (x² coefficient)
-                    {isCalculating && <span className="ml-2 text-xs text-orange-500">⏳</span>}
-                  </label>
+
+              {/* Comparison Controls */}
+              <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600 flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 font-medium">
                   <input
-                    type="number"
-                    id="polyA"
-                    value={polyA}
-                    onChange={(e) => setPolyA(Number(e.target.value))}
-                    className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white transition-colors ${
-                      isCalculating 
-                        ? 'border-orange-300 dark:border-orange-600 bg-orange-50 dark:bg-orange-900/20' 
-                        : 'border-gray-300 dark:border-gray-600'
-                    }`}
+                    type="checkbox"
+                    checked={comparisonEnabled}
+                    onChange={(e) => setComparisonEnabled(e.target.checked)}
+                    className="h-4 w-4 accent-blue-500"
                   />
-                </div>
-                
-                <div>
-                  <label 
-                    htmlFor="polyB" 
-                    className="block text-sm font-medium text-purple-600 dark:text-purple-400 mb-2"
-                  >
-                    📊 B (x coefficient)
-                    {isCalculating && <span className="ml-2 text-xs text-orange-500">⏳</span>}
-                  </label>
+                  📊 Compare profiles
+                </label>
+                {comparisonEnabled && Object.entries(profiles).map(([id, profile]) => {
+                  const isCompared = comparedProfiles.includes(id);
+                  return (
+                    <button
+                      key={id}
+                      onClick={() => setComparedProfiles(isCompared
+                        ? comparedProfiles.filter((compared) => compared !== id)
+                        : [...comparedProfiles, id])}
+                      className={`px-2 py-1 rounded-full border text-xs flex items-center gap-1 transition-colors ${
+                        isCompared
+                          ? 'border-gray-900 dark:border-white text-gray-900 dark:text-white'
+                          : 'border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-500'
+                      }`}
+                    >
+                      <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: isCompared ? comparisonColors[id] : 'transparent' }}></span>
+                      {profile.icon} {profile.name}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Monte Carlo Controls */}
+              <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600 flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 font-medium">
                   <input
-                    type="number"
-                    id="polyB"
-                    value={polyB}
-                    onChange={(e) => setPolyB(Number(e.target.value))}
-                    className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white transition-colors ${
-                      isCalculating 
-                        ? 'border-orange-300 dark:border-orange-600 bg-orange-50 dark:bg-orange-900/20' 
-                        : 'border-gray-300 dark:border-gray-600'
-                    }`}
+                    type="checkbox"
+                    checked={monteCarloEnabled}
+                    onChange={(e) => {
+                      setMonteCarloEnabled(e.target.checked);
+                      if (e.target.checked) setAnalyticalEnabled(false);
+                    }}
+                    className="h-4 w-4 accent-blue-500"
                   />
-                </div>
-                
-                <div>
-                  <label 
-                    htmlFor="polyC" 
-                    className="block text-sm font-medium text-purple-600 dark:text-purple-400 mb-2"
+                  🎲 Monte Carlo mode
+                </label>
+                <label className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                  Runs
+                  <select
+                    value={monteCarloRuns}
+                    onChange={(e) => setMonteCarloRuns(Number(e.target.value))}
+                    disabled={!monteCarloEnabled}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white disabled:opacity-50"
                   >
-                    📋 C (constant)
-                    {isCalculating && <span className="ml-2 text-xs text-orange-500">⏳</span>}
-                  </label>
+                    {monteCarloRunOptions.map((runs) => (
+                      <option key={runs} value={runs}>{runs.toLocaleString()}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={runMonteCarloBands}
+                  disabled={!monteCarloEnabled || comparisonEnabled || isRunningMonteCarlo}
+                  className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isRunningMonteCarlo ? `Running… ${Math.round(monteCarloProgress * 100)}%` : '▶ Run'}
+                </button>
+                <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 font-medium">
                   <input
-                    type="number"
-                    id="polyC"
-                    value={polyC}
-                    onChange={(e) => setPolyC(Number(e.target.value))}
-                    className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white transition-colors ${
-                      isCalculating 
-                        ? 'border-orange-300 dark:border-orange-600 bg-orange-50 dark:bg-orange-900/20' 
-                        : 'border-gray-300 dark:border-gray-600'
-                    }`}
+                    type="checkbox"
+                    checked={analyticalEnabled}
+                    onChange={(e) => {
+                      setAnalyticalEnabled(e.target.checked);
+                      if (e.target.checked) setMonteCarloEnabled(false);
+                    }}
+                    className="h-4 w-4 accent-blue-500"
                   />
-                </div>
-                
-                <div>
-                  <label 
-                    htmlFor="polyMultiplier" 
-                    className="block text-sm font-medium text-purple-600 dark:text-purple-400 mb-2"
+                  📐 Mean ± σ
+                </label>
+                <label className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                  Horizon
+                  <select
+                    value={analyticalSeasons}
+                    onChange={(e) => setAnalyticalSeasons(Number(e.target.value))}
+                    disabled={!analyticalEnabled}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white disabled:opacity-50"
                   >
-                    ✖️ Multiplier
-                    {isCalculating && <span className="ml-2 text-xs text-orange-500">⏳</span>}
-                  </label>
+                    {horizonOptions.map((seasons) => (
+                      <option key={seasons} value={seasons}>{seasons === 1 ? '1 season' : `${seasons} seasons`}</option>
+                    ))}
+                  </select>
+                </label>
+                <span className="text-xs text-gray-500 dark:text-gray-500">
+                  {comparisonEnabled && (monteCarloEnabled || analyticalEnabled)
+                    ? 'Bands are hidden while comparing profiles'
+                    : monteCarloEnabled && !monteCarloResult
+                      ? 'Press Run to simulate the chosen number of runs'
+                      : monteCarloEnabled && isMonteCarloStale
+                        ? 'The settings changed since this run. Run again to update the bands'
+                        : monteCarloEnabled
+                          ? 'Lines show the median run; shaded bands span the 10th to 90th percentile'
+                          : analyticalEnabled
+                            ? `Expected XP and level with a one standard deviation band, computed directly and updated live as the curve changes${
+                              modifiers.winStreak.enabled || modifiers.firstWin.enabled || modifiers.dailyLogin.enabled
+                                ? '. Streak, first-win and login bonuses widen the real spread, so the band is a lower bound'
+                                : ''
+                            }`
+                            : 'Shows a single deterministic run'}
+                </span>
+                {monteCarloEnabled && monteCarloError && (
+                  <span className="text-xs text-red-600 dark:text-red-400">The run failed: {monteCarloError}</span>
+                )}
+              </div>
+
+              {/* Random Seed */}
+              <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600 flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 font-medium">
+                  Seed
                   <input
                     type="number"
-                    id="polyMultiplier"
-                    step="0.01"
-                    value={polyMultiplier}
-                    onChange={(e) => setPolyMultiplier(Number(e.target.value))}
-                    className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white transition-colors ${
-                      isCalculating 
-                        ? 'border-orange-300 dark:border-orange-600 bg-orange-50 dark:bg-orange-900/20' 
-                        : 'border-gray-300 dark:border-gray-600'
-                    }`}
+                    min="0"
+                    max={MAX_SEED}
+                    value={seed}
+                    onChange={(e) => setSeed(Math.min(MAX_SEED, Math.max(0, Math.floor(Number(e.target.value)) || 0)))}
+                    className="w-32 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md font-mono dark:bg-gray-700 dark:text-white"
                   />
-                </div>
+                </label>
+                <button
+                  onClick={() => setSeed(randomSeed())}
+                  className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors"
+                  title="Pick a new seed for every placement roll"
+                >
+                  🔄 Reroll
+                </button>
+                <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 font-medium">
+                  Games
+                  <select
+                    value={simulationMode}
+                    onChange={(e) => setSimulationMode(e.target.value as SimulationMode)}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                  >
+                    {Object.entries(simulationModeLabels).map(([mode, label]) => (
+                      <option key={mode} value={mode}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+                <span className="text-xs text-gray-500 dark:text-gray-500">
+                  {simulationMode === 'expected'
+                    ? 'Expected value ignores the seed; Monte Carlo runs always roll every game'
+                    : 'Saved with the scenario, so the same seed always gives the same rolls'}
+                </span>
+              </div>
+
+              {/* Data Export */}
+              <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-700 dark:text-gray-300 font-medium mr-2">⬇️ Export {currentProfile.name} run:</span>
+                <button
+                  onClick={() => downloadFile(`xp-timeline-${selectedProfile}.csv`, timelineCSV(simulation), 'text/csv')}
+                  className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors"
+                  title="Day, date, daily XP gained, cumulative XP and level"
+                >
+                  Timeline CSV
+                </button>
+                <button
+                  onClick={() => downloadFile(`xp-games-${selectedProfile}.csv`, gameEventsCSV(simulation), 'text/csv')}
+                  disabled={simulation.events.length === 0}
+                  className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors disabled:opacity-50"
+                  title={simulation.events.length === 0 ? 'No games are rolled in expected-value mode' : 'Every simulated game with its placement and points awarded'}
+                >
+                  Game Log CSV
+                </button>
               </div>
+            </div>
+            
+            {/* Curve Health Warnings */}
+            <CurveHealthPanel
+              curveWarnings={curveWarnings}
+              pacingWarnings={pacingWarnings}
+              profileName={currentProfile.name}
+              thresholds={pacingThresholds}
+              onThresholdsChange={setPacingThresholds}
+            />
+
+            {/* Profile Comparison Table */}
+            {comparisonEnabled && (
+              <ProfileComparison
+                profiles={profiles}
+                comparedProfiles={comparedProfiles}
+                simulations={profileSimulations}
+                colors={comparisonColors}
+              />
+            )}
+            
+            {/* Seasonality and Activity Editor */}
+            <ActivityEditor activity={activity} onChange={setActivity} />
+
+            {/* Mathematical Formula Display */}
+            <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                Leveling Formula
+              </h3>
+              
+              {/* Curve Family and Coefficients */}
+              <CurveEditor curve={curve} onChange={setCurve} isCalculating={isCalculating} />
               
               {/* Preset Buttons */}
               <div className="mb-6 border-t pt-4">
@@ -980,91 +1635,37 @@ export default function XPCalculator() {
                   Quick Presets:
                 </div>
                 <div className="flex flex-wrap gap-2">
-                  <button
-                    onClick={() => {
-                      setPolyA(65);
-                      setPolyB(-165);
-                      setPolyC(-6750);
-                      setPolyMultiplier(0.82);
-                    }}
-                    className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded text-sm transition-colors"
-                  >
-                    Your Example (65x² - 165x - 6750) × 0.82
-                  </button>
-                  <button
-                    onClick={() => {
-                      setPolyA(10);
-                      setPolyB(50);
-                      setPolyC(100);
-                      setPolyMultiplier(1.0);
-                    }}
-                    className="px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
-                  >
-                    Linear Growth
-                  </button>
-                  <button
-                    onClick={() => {
-                      setPolyA(25);
-                      setPolyB(0);
-                      setPolyC(0);
-                      setPolyMultiplier(1.0);
-                    }}
-                    className="px-3 py-1 bg-purple-500 hover:bg-purple-600 text-white rounded text-sm transition-colors"
-                  >
-                    Pure Quadratic
-                  </button>
-                  <button
-                    onClick={() => {
-                      setPolyA(0);
-                      setPolyB(100);
-                      setPolyC(0);
-                      setPolyMultiplier(1.0);
-                    }}
-                    className="px-3 py-1 bg-orange-500 hover:bg-orange-600 text-white rounded text-sm transition-colors"
-                  >
-                    Flat Rate
-                  </button>
-                  <button
-                    onClick={() => {
-                      setPolyA(0.035);
-                      setPolyB(2.5);
-                      setPolyC(10);
-                      setPolyMultiplier(0.5);
-                    }}
-                    className="px-3 py-1 bg-indigo-500 hover:bg-indigo-600 text-white rounded text-sm transition-colors"
-                  >
-                    Level 500 = 10k XP
-                  </button>
+                  {curvePresets.map((preset) => (
+                    <button
+                      key={preset.name}
+                      onClick={() => setCurve(preset.curve)}
+                      className={`px-3 py-1 ${preset.color} text-white rounded text-sm transition-colors`}
+                    >
+                      {preset.name}
+                    </button>
+                  ))}
                 </div>
               </div>
               
               {/* Live Formula Display */}
               <div className="text-center border-t pt-4">
                 <div className="text-gray-700 dark:text-gray-300 mb-2">XP required for next level:</div>
-                <BlockMath math={`\\text{XP}_{\\text{level}} = (${debouncedPolyA}x^2 + ${debouncedPolyB}x + ${debouncedPolyC}) \\times ${debouncedPolyMultiplier}`} />
+                <BlockMath math={curveLatex(debouncedCurve)} />
                 
                 <div className="text-gray-700 dark:text-gray-300 mt-4 mb-2">Where x = level number</div>
                 
                 <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
-                    {[1, 10, 50, 100].map((level) => {
-                      const xpNeeded = calculateXPForLevel(level);
-                      return (
-                        <div key={level} className={`p-3 rounded-lg text-center transition-colors ${
-                          isCalculating 
-                            ? 'bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-600' 
-                            : 'bg-gray-50 dark:bg-gray-700/50'
-                        }`}>
-                          <div className="text-sm font-bold text-gray-900 dark:text-white">Level {level}</div>
-                          <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
-                            {xpNeeded.toLocaleString()} XP
-                          </div>
-                        </div>
-                      );
-                    })}
+                  <div className="text-gray-700 dark:text-gray-300 mb-2">Day each profile first reaches a level:</div>
+                  <div className={`rounded-lg transition-colors ${isCalculating ? 'opacity-60' : ''}`}>
+                    <TimeToLevelMatrix
+                      profiles={profiles}
+                      simulations={profileSimulations}
+                      targets={levelTargets}
+                      onChange={setLevelTargets}
+                    />
                   </div>
                   <div className="mt-3 text-xs text-gray-500 dark:text-gray-500">
-                    * Examples update in real-time as you adjust the polynomial coefficients
+                    * Days update shortly after you edit the curve
                     {isCalculating && <span className="block text-orange-500 mt-1">⏳ Calculations in progress...</span>}
                   </div>
                 </div>
@@ -1078,14 +1679,12 @@ export default function XPCalculator() {
               </h4>
               <div className="space-y-3">
                 <div className="flex flex-wrap gap-6 text-sm">
-                  <div className="flex items-center gap-2">
-                    <div className="w-6 h-0.5 border-t-2 border-dashed border-gray-400"></div>
-                    <span className="text-gray-600 dark:text-gray-400">Weekly Games (Every Sunday)</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-6 h-0.5 border-t-2 border-gray-400"></div>
-                    <span className="text-gray-600 dark:text-gray-400">Monthly Games (Every 30 Days)</span>
-                  </div>
+                  {annotatedGameTypes.map((type) => (
+                    <div key={type.id} className="flex items-center gap-2">
+                      <div className={`w-6 h-0.5 border-t-2 ${ANNOTATION_LEGEND_CLASSES[type.annotation]} border-gray-400`}></div>
+                      <span className="text-gray-600 dark:text-gray-400">{type.name} ({cadenceLabel(type.cadence, weeklyEndDay)})</span>
+                    </div>
+                  ))}
                 </div>
                 
                 <div className="border-t pt-3">
@@ -1093,22 +1692,12 @@ export default function XPCalculator() {
                     Line Colors by Placement:
                   </div>
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
-                    <div className="flex items-center gap-2">
-                      <div className="w-4 h-0.5" style={{ backgroundColor: '#FFD700' }}></div>
-                      <span className="text-gray-600 dark:text-gray-400">🥇 1st Place</span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <div className="w-4 h-0.5" style={{ backgroundColor: '#C0C0C0' }}></div>
-                      <span className="text-gray-600 dark:text-gray-400">🥈 2nd Place</span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <div className="w-4 h-0.5" style={{ backgroundColor: '#CD7F32' }}></div>
-                      <span className="text-gray-600 dark:text-gray-400">🥉 3rd Place</span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <div className="w-4 h-0.5" style={{ backgroundColor: '#9CA3AF' }}></div>
-                      <span className="text-gray-600 dark:text-gray-400">🎮 Participation</span>
-                    </div>
+                    {tiers.map((tier) => (
+                      <div key={tier.id} className="flex items-center gap-2">
+                        <div className="w-4 h-0.5" style={{ backgroundColor: tier.color }}></div>
+                        <span className="text-gray-600 dark:text-gray-400">{tier.icon} {tier.name}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
                 
@@ -1117,6 +1706,9 @@ export default function XPCalculator() {
                 </div>
               </div>
             </div>
+            
+            {/* Target Pacing Solver */}
+            <PacingSolver curve={debouncedCurve} profiles={profiles} cumulativeXPByProfile={cumulativeXPByProfile} seasonLength={simulation.calendar.length} onApply={setCurve} />
           </div>
 
           {/* Level List Panel */}
@@ -1136,9 +1728,22 @@ export default function XPCalculator() {
               </div>
               
               <div className="text-center text-sm text-gray-600 dark:text-gray-400 mb-4">
-                Formula: ({debouncedPolyA}x² + {debouncedPolyB}x + {debouncedPolyC}) × {debouncedPolyMultiplier}
+                Formula: {curveText(debouncedCurve)}
               </div>
               
+              {/* Milestone rewards and when the selected profile reaches them */}
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                Milestones · {currentProfile.name}
+              </h4>
+              <div className="mb-6">
+                <MilestoneTable
+                  milestones={milestones}
+                  timeline={milestoneReaches}
+                  totalXPToLevel={levelScale.totalXPToLevel}
+                  onChange={setMilestones}
+                />
+              </div>
+
               {/* Level Grid with improved padding and height */}
               <div className="max-h-[600px] overflow-y-auto border border-gray-200 dark:border-gray-600 rounded-lg">
                 <table className="w-full text-sm">
@@ -1153,11 +1758,13 @@ export default function XPCalculator() {
                     {Array.from({ length: 500 }, (_, i) => i + 1).map((level) => {
                       const xpNeeded = Math.floor(calculateXPForLevel(level));
                       const xpToNext = level < 500 ? Math.floor(calculateXPForLevel(level + 1)) : 0;
+                      const warning = flaggedLevelKinds.get(level);
                       return (
                         <tr
                           key={level}
                           className="border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
-                          title={`Level ${level}: ${xpNeeded.toLocaleString()} XP${level < 500 ? `, ${xpToNext.toLocaleString()} XP to next` : ''}`}
+                          style={warning ? { backgroundColor: curveWarningColors[warning].replace('rgb', 'rgba').replace(')', ', 0.12)') } : undefined}
+                          title={`Level ${level}: ${xpNeeded.toLocaleString()} XP${level < 500 ? `, ${xpToNext.toLocaleString()} XP to next` : ''}${warning === 'clamped' ? ' (clamped)' : warning === 'nonMonotonic' ? ' (cheaper than the level before)' : ''}`}
                         >
                           <td className="px-2 py-1 font-medium text-gray-900 dark:text-white">
                             {level}
@@ -1230,7 +1837,7 @@ export default function XPCalculator() {
           
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 text-center">
             <div className="text-3xl font-bold text-green-600 dark:text-green-400">
-              {avgPointsPerGame}
+              {avgPointsPerGame ?? '—'}
             </div>
             <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
               Avg Points/Game
@@ -1239,7 +1846,7 @@ export default function XPCalculator() {
           
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 text-center">
             <div className="text-3xl font-bold text-orange-600 dark:text-orange-400">
-              {Math.round(totalGamesPerYear / 365)}
+              {Math.round(totalGamesPerYear / seasonDays.length)}
             </div>
             <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
               Games per Day
@@ -1256,41 +1863,59 @@ export default function XPCalculator() {
           </div>
         </div>
 
+        <PopulationPanel config={simulationConfig} profiles={profiles} population={population} onChange={setPopulation} />
+
         {/* Placement Distribution Info */}
         <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
             {currentProfile.name} Player Distribution Model
           </h3>
-          <div className="grid md:grid-cols-4 gap-4 text-center">
-            <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
-              <div className="text-2xl">🥇</div>
-              <div className="font-semibold text-yellow-700 dark:text-yellow-300">
-                {Math.round(currentProfile.distribution.first * 100)}%
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">1st Place</div>
-            </div>
-            <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
-              <div className="text-2xl">🥈</div>
-              <div className="font-semibold text-gray-700 dark:text-gray-300">
-                {Math.round(currentProfile.distribution.second * 100)}%
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">2nd Place</div>
-            </div>
-            <div className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
-              <div className="text-2xl">🥉</div>
-              <div className="font-semibold text-amber-700 dark:text-amber-300">
-                {Math.round(currentProfile.distribution.third * 100)}%
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">3rd Place</div>
+          {currentProfile.rating === undefined ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              {tiers.map((tier) => (
+                <div key={tier.id} className="p-4 rounded-lg" style={{ backgroundColor: tierColor(tier, 0.15) }}>
+                  <div className="text-2xl">{tier.icon}</div>
+                  <div className="font-semibold text-gray-900 dark:text-white">
+                    {Math.round(tierProbability(currentProfile.distribution, tier.id) * 100)}%
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">{tier.name}</div>
+                </div>
+              ))}
             </div>
-            <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
-              <div className="text-2xl">🎮</div>
-              <div className="font-semibold text-green-700 dark:text-green-300">
-                {Math.round(currentProfile.distribution.participation * 100)}%
-              </div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">Participation</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                Rated {currentProfile.rating} against opponents rated {opponents.mean} ± {opponents.stdDev}
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-600 dark:text-gray-400">
+                    <th className="text-left py-1 font-medium">Game Type</th>
+                    <th className="text-right py-1 font-medium">Lobby</th>
+                    {tiers.map((tier) => (
+                      <th key={tier.id} className="text-right py-1 font-medium" title={tier.name}>{tier.icon}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {gameTypes.map((type) => {
+                    const distribution = placementDistribution(simulationConfig, type);
+                    return (
+                      <tr key={type.id} className="border-t border-gray-100 dark:border-gray-700">
+                        <td className="py-1 text-gray-900 dark:text-white">{type.name}</td>
+                        <td className="py-1 text-right font-mono text-gray-600 dark:text-gray-400">{type.lobbySize}</td>
+                        {tiers.map((tier) => (
+                          <td key={tier.id} className="py-1 text-right font-mono text-gray-900 dark:text-white">
+                            {Math.round(tierProbability(distribution, tier.id) * 1000) / 10}%
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
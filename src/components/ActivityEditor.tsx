@@ -0,0 +1,180 @@
+'use client';
+
+import { PointerEvent, useRef, useState } from 'react';
+import { ActivityCurveError, ActivityModel, defaultActivity, MONTH_NAMES, parseActivityCSV } from '@/lib/activity';
+import { WEEKDAY_NAMES } from '@/lib/calendar';
+
+interface ActivityEditorProps {
+  activity: ActivityModel;
+  onChange: (activity: ActivityModel) => void;
+}
+
+const inputClassName = 'w-full px-1 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-xs text-center dark:bg-gray-700 dark:text-white';
+
+// Column of draggable bars: click or drag inside a column to set its value
+function BarEditor({ labels, values, max, step, format, parse, color, idPrefix, onChange }: {
+  labels: string[];
+  values: number[];
+  max: number;
+  step: number;
+  format: (value: number) => number;
+  parse: (input: number) => number;
+  color: string;
+  idPrefix: string;
+  onChange: (values: number[]) => void;
+}) {
+  const setValue = (index: number, value: number) => {
+    const clamped = Math.min(max, Math.max(0, Math.round(value / step) * step));
+    onChange(values.map((v, i) => i === index ? Math.round(clamped * 10000) / 10000 : v));
+  };
+
+  const handlePointer = (index: number, event: PointerEvent<HTMLDivElement>) => {
+    if (event.buttons !== 1) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    setValue(index, (1 - (event.clientY - rect.top) / rect.height) * max);
+  };
+
+  return (
+    <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${labels.length}, minmax(0, 1fr))` }}>
+      {labels.map((label, index) => (
+        <div key={label} className="flex flex-col items-center gap-1">
+          <div
+            className="relative w-full h-24 bg-gray-100 dark:bg-gray-700 rounded cursor-ns-resize touch-none"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              handlePointer(index, e);
+            }}
+            onPointerMove={(e) => handlePointer(index, e)}
+          >
+            <div
+              className={`absolute bottom-0 inset-x-0 rounded ${color}`}
+              style={{ height: `${Math.min(100, (values[index] / max) * 100)}%` }}
+            ></div>
+          </div>
+          <label htmlFor={`${idPrefix}${index}`} className="text-xs text-gray-600 dark:text-gray-400">
+            {label}
+          </label>
+          <input
+            type="number"
+            id={`${idPrefix}${index}`}
+            min="0"
+            step={format(step)}
+            value={format(values[index])}
+            onChange={(e) => setValue(index, parse(Number(e.target.value)))}
+            className={inputClassName}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ActivityEditor({ activity, onChange }: ActivityEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const importCurve = async (file: File) => {
+    try {
+      onChange({ ...activity, dailyCurve: parseActivityCSV(await file.text()) });
+      setImportError(null);
+    } catch (error) {
+      setImportError(`${file.name}: ${error instanceof ActivityCurveError ? error.message : 'the file could not be read'}`);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Player Activity
+        </h3>
+        <button
+          onClick={() => {
+            onChange(defaultActivity);
+            setImportError(null);
+          }}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+
+      <div className="space-y-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Seasonality (× game volume by month)</h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Scales games on day and week cadences in each calendar month, and month-cadence games ending in it
+          </p>
+          <BarEditor
+            labels={MONTH_NAMES}
+            values={activity.seasonality}
+            max={2}
+            step={0.05}
+            format={(value) => value}
+            parse={(input) => input}
+            color="bg-indigo-400 dark:bg-indigo-500"
+            idPrefix="seasonality"
+            onChange={(seasonality) => onChange({ ...activity, seasonality })}
+          />
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Weekday Participation (%)</h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Share of day-cadence games a player takes part in on each day of the week
+          </p>
+          <BarEditor
+            labels={WEEKDAY_NAMES.map((name) => name.slice(0, 3))}
+            values={activity.weekdayParticipation}
+            max={1}
+            step={0.01}
+            format={(value) => Math.round(value * 100)}
+            parse={(input) => input / 100}
+            color="bg-teal-400 dark:bg-teal-500"
+            idPrefix="weekday"
+            onChange={(weekdayParticipation) => onChange({ ...activity, weekdayParticipation })}
+          />
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Daily Activity Curve</h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            {activity.dailyCurve
+              ? `Imported curve with ${activity.dailyCurve.length} days, scaled to an average of 1×`
+              : 'Using the built-in wave (0.85 + 0.15·sin(0.1·day)). Import a CSV with one value per day, or day,value rows, e.g. a DAU export.'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded text-sm transition-colors"
+            >
+              Import CSV
+            </button>
+            {activity.dailyCurve && (
+              <button
+                onClick={() => onChange({ ...activity, dailyCurve: null })}
+                className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors"
+              >
+                Use Built-in Wave
+              </button>
+            )}
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="text/csv,.csv,.txt"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importCurve(file);
+              e.target.value = ''; // Allow re-importing the same file
+            }}
+          />
+          {importError && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400">{importError}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  curveFamilies,
+  CurveDefinition,
+  CurveFamily,
+  getCurveParam,
+  PiecewiseCurve,
+  setCurveParam,
+  SimpleCurve,
+  simpleCurveFamilies,
+  TableCurve,
+} from '@/lib/curves';
+
+interface CurveEditorProps {
+  curve: CurveDefinition;
+  onChange: (curve: CurveDefinition) => void;
+  isCalculating: boolean;
+}
+
+const inputClassName = (isCalculating: boolean) =>
+  `w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white transition-colors ${
+    isCalculating
+      ? 'border-orange-300 dark:border-orange-600 bg-orange-50 dark:bg-orange-900/20'
+      : 'border-gray-300 dark:border-gray-600'
+  }`;
+
+function ParamInputs({ curve, onChange, isCalculating, idPrefix }: {
+  curve: SimpleCurve;
+  onChange: (curve: SimpleCurve) => void;
+  isCalculating: boolean;
+  idPrefix: string;
+}) {
+  return (
+    <>
+      {curveFamilies[curve.family].params.map((param) => (
+        <div key={param.key}>
+          <label
+            htmlFor={`${idPrefix}${param.key}`}
+            className="block text-sm font-medium text-purple-600 dark:text-purple-400 mb-2"
+          >
+            {param.label}
+            {isCalculating && <span className="ml-2 text-xs text-orange-500">⏳</span>}
+          </label>
+          <input
+            type="number"
+            id={`${idPrefix}${param.key}`}
+            step={param.step}
+            value={getCurveParam(curve, param.key)}
+            onChange={(e) => onChange(setCurveParam(curve, param.key, Number(e.target.value)))}
+            className={inputClassName(isCalculating)}
+          />
+        </div>
+      ))}
+    </>
+  );
+}
+
+function PiecewiseEditor({ curve, onChange, isCalculating }: {
+  curve: PiecewiseCurve;
+  onChange: (curve: PiecewiseCurve) => void;
+  isCalculating: boolean;
+}) {
+  const updateSegment = (index: number, segment: PiecewiseCurve['segments'][number]) => {
+    onChange({ ...curve, segments: curve.segments.map((s, i) => i === index ? segment : s) });
+  };
+
+  return (
+    <div className="space-y-4">
+      {curve.segments.map((segment, index) => (
+        <div key={index} className="p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
+          <div className="flex flex-wrap items-end gap-3 mb-3">
+            <div>
+              <label
+                htmlFor={`segment${index}From`}
+                className="block text-sm font-medium text-purple-600 dark:text-purple-400 mb-2"
+              >
+                From level
+              </label>
+              <input
+                type="number"
+                id={`segment${index}From`}
+                min="1"
+                value={segment.fromLevel}
+                onChange={(e) => updateSegment(index, { ...segment, fromLevel: Number(e.target.value) })}
+                className={`${inputClassName(isCalculating)} w-28`}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor={`segment${index}Family`}
+                className="block text-sm font-medium text-purple-600 dark:text-purple-400 mb-2"
+              >
+                Formula
+              </label>
+              <select
+                id={`segment${index}Family`}
+                value={segment.curve.family}
+                onChange={(e) => updateSegment(index, {
+                  ...segment,
+                  curve: curveFamilies[e.target.value as SimpleCurve['family']].defaults as SimpleCurve
+                })}
+                className={inputClassName(isCalculating)}
+              >
+                {simpleCurveFamilies.map((family) => (
+                  <option key={family} value={family}>{curveFamilies[family].name}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={() => onChange({ ...curve, segments: curve.segments.filter((_, i) => i !== index) })}
+              disabled={curve.segments.length <= 1}
+              className="ml-auto px-3 py-2 text-sm text-red-600 hover:text-red-700 dark:text-red-400 disabled:opacity-40 transition-colors"
+              title="Remove segment"
+            >
+              ✕ Remove
+            </button>
+          </div>
+          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <ParamInputs
+              curve={segment.curve}
+              onChange={(segmentCurve) => updateSegment(index, { ...segment, curve: segmentCurve })}
+              isCalculating={isCalculating}
+              idPrefix={`segment${index}`}
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={() => {
+          const last = curve.segments[curve.segments.length - 1];
+          onChange({
+            ...curve,
+            segments: [...curve.segments, { fromLevel: (last?.fromLevel ?? 0) + 50, curve: last?.curve ?? (curveFamilies.quadratic.defaults as SimpleCurve) }]
+          });
+        }}
+        className="px-3 py-1 bg-purple-500 hover:bg-purple-600 text-white rounded text-sm transition-colors"
+      >
+        + Add segment
+      </button>
+    </div>
+  );
+}
+
+const parseTableValues = (text: string): number[] => {
+  return text
+    .split(/[\s,;]+/)
+    .filter((value) => value !== '')
+    .map(Number)
+    .filter((value) => Number.isFinite(value));
+};
+
+function TableEditor({ curve, onChange, isCalculating }: {
+  curve: TableCurve;
+  onChange: (curve: TableCurve) => void;
+  isCalculating: boolean;
+}) {
+  // Keep the raw text so partially typed values aren't reformatted under the cursor;
+  // fall back to the curve's values when they were replaced from outside (e.g. a preset)
+  const [text, setText] = useState<string>(curve.values.join(', '));
+  const parsedText = parseTableValues(text);
+  const displayText = parsedText.length === curve.values.length && parsedText.every((value, i) => value === curve.values[i])
+    ? text
+    : curve.values.join(', ');
+
+  return (
+    <div>
+      <label
+        htmlFor="curveTable"
+        className="block text-sm font-medium text-purple-600 dark:text-purple-400 mb-2"
+      >
+        XP per level, starting at level 1 (comma or newline separated)
+      </label>
+      <textarea
+        id="curveTable"
+        rows={4}
+        value={displayText}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange({ ...curve, values: parseTableValues(e.target.value) });
+        }}
+        className={`${inputClassName(isCalculating)} font-mono text-sm`}
+      />
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        {curve.values.length} levels defined; levels beyond the table reuse the last value
+      </p>
+    </div>
+  );
+}
+
+export default function CurveEditor({ curve, onChange, isCalculating }: CurveEditorProps) {
+  return (
+    <div className="mb-6">
+      {/* Curve Family Selector */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(curveFamilies) as CurveFamily[]).map((family) => (
+          <button
+            key={family}
+            onClick={() => family !== curve.family && onChange(curveFamilies[family].defaults)}
+            className={`px-3 py-1 rounded text-sm border transition-colors ${
+              curve.family === family
+                ? 'bg-purple-600 border-purple-600 text-white'
+                : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-purple-400'
+            }`}
+            title={curveFamilies[family].description}
+          >
+            {curveFamilies[family].name}
+          </button>
+        ))}
+      </div>
+
+      {curve.family === 'piecewise' ? (
+        <PiecewiseEditor curve={curve} onChange={onChange} isCalculating={isCalculating} />
+      ) : curve.family === 'table' ? (
+        <TableEditor curve={curve} onChange={onChange} isCalculating={isCalculating} />
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <ParamInputs curve={curve} onChange={onChange} isCalculating={isCalculating} idPrefix="curve" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { CurveWarning, curveWarningColors, CurveWarningKind, curveWarningLabels, PacingThresholds } from '@/lib/curveHealth';
+
+interface CurveHealthPanelProps {
+  curveWarnings: CurveWarning[];
+  pacingWarnings: CurveWarning[]; // for the selected profile
+  profileName: string;
+  thresholds: PacingThresholds;
+  onThresholdsChange: (thresholds: PacingThresholds) => void;
+}
+
+const inputClassName = 'w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+
+export default function CurveHealthPanel({ curveWarnings, pacingWarnings, profileName, thresholds, onThresholdsChange }: CurveHealthPanelProps) {
+  const groups = (Object.keys(curveWarningLabels) as CurveWarningKind[])
+    .map((kind) => ({ kind, warnings: [...curveWarnings, ...pacingWarnings].filter((warning) => warning.kind === kind) }))
+    .filter(({ warnings }) => warnings.length > 0);
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Curve Health
+        </h3>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+          <label className="flex items-center gap-2">
+            Burst at
+            <input
+              type="number"
+              min="2"
+              value={thresholds.burstLevels}
+              onChange={(e) => onThresholdsChange({ ...thresholds, burstLevels: Math.max(2, Number(e.target.value)) })}
+              className={inputClassName}
+            />
+            levels/day
+          </label>
+          <label className="flex items-center gap-2">
+            Dead zone after
+            <input
+              type="number"
+              min="1"
+              value={thresholds.deadZoneDays}
+              onChange={(e) => onThresholdsChange({ ...thresholds, deadZoneDays: Math.max(1, Number(e.target.value)) })}
+              className={inputClassName}
+            />
+            days
+          </label>
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-green-700 dark:text-green-400">
+          ✓ No clamped or decreasing levels, and no bursts or dead zones for the {profileName} player.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Curve problems apply to every profile; bursts and dead zones are for the {profileName} player and are highlighted on the chart.
+          </p>
+          {groups.map(({ kind, warnings }) => (
+            <div key={kind}>
+              <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white mb-1">
+                <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: curveWarningColors[kind] }}></span>
+                {curveWarningLabels[kind]} ({warnings.length})
+              </div>
+              <ul className="max-h-32 overflow-y-auto text-xs text-gray-600 dark:text-gray-400 list-disc list-inside">
+                {warnings.map((warning) => <li key={warning.message}>{warning.message}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AnnotationStyle,
+  annotationStyles,
+  CadenceUnit,
+  cadenceLabel,
+  cadenceUnits,
+  DEFAULT_LOBBY_SIZE,
+  defaultGameTypes,
+  GameTypeDefinition,
+  MAX_GAMES_PER_CYCLE,
+  nextGameTypeSeedOffset,
+  validateGameType,
+} from '@/lib/gameTypes';
+
+interface GameTypeEditorProps {
+  gameTypes: GameTypeDefinition[];
+  weeklyEndDay: number;
+  onChange: (gameTypes: GameTypeDefinition[]) => void;
+}
+
+const cadenceUnitLabels: Record<CadenceUnit, string> = {
+  day: 'day(s)',
+  week: 'week end(s)',
+  month: 'month end(s)',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+const smallInputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+
+export default function GameTypeEditor({ gameTypes, weeklyEndDay, onChange }: GameTypeEditorProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateType = (id: string, changes: Partial<GameTypeDefinition>) => {
+    onChange(gameTypes.map((type) => type.id === id ? { ...type, ...changes } : type));
+  };
+
+  const addType = () => {
+    const id = `game-${Date.now().toString(36)}`;
+    onChange([...gameTypes, {
+      id,
+      name: 'New Game Type',
+      durationDays: 3,
+      cadence: { unit: 'day', every: 3 },
+      gamesPerCycle: 1,
+      rewards: {},
+      participationRate: 1,
+      lobbySize: DEFAULT_LOBBY_SIZE,
+      annotation: 'dotted',
+      seedOffset: nextGameTypeSeedOffset(gameTypes)
+    }]);
+    setExpandedId(id);
+  };
+
+  return (
+    <div className="space-y-4">
+      {gameTypes.map((type) => {
+        const errors = validateGameType(type);
+        const isExpanded = expandedId === type.id;
+        return (
+          <div key={type.id}>
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <label
+                htmlFor={`games-${type.id}`}
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                {type.name || 'Unnamed'} (complete {cadenceLabel(type.cadence, weeklyEndDay)})
+              </label>
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : type.id)}
+                className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+                title={isExpanded ? 'Hide game type settings' : 'Edit game type settings'}
+              >
+                {isExpanded ? '▴' : '⚙'}
+              </button>
+            </div>
+            <input
+              type="number"
+              id={`games-${type.id}`}
+              min="0"
+              max={MAX_GAMES_PER_CYCLE}
+              value={type.gamesPerCycle}
+              onChange={(e) => updateType(type.id, { gamesPerCycle: Number(e.target.value) })}
+              className={inputClassName}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {type.durationDays}-day games · players take part in {Math.round(type.participationRate * 100)}%
+              {type.cadence.unit === 'day' && ', following the weekday pattern'}
+            </p>
+
+            {isExpanded && (
+              <div className="mt-2 p-3 border border-gray-200 dark:border-gray-600 rounded-lg grid grid-cols-2 gap-3">
+                <label className="col-span-2 text-xs text-gray-600 dark:text-gray-400">
+                  Name
+                  <input
+                    value={type.name}
+                    onChange={(e) => updateType(type.id, { name: e.target.value })}
+                    className={smallInputClassName}
+                  />
+                </label>
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Duration (days)
+                  <input
+                    type="number"
+                    min="1"
+                    value={type.durationDays}
+                    onChange={(e) => updateType(type.id, { durationDays: Number(e.target.value) })}
+                    className={smallInputClassName}
+                  />
+                </label>
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Participation (%)
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={Math.round(type.participationRate * 100)}
+                    onChange={(e) => updateType(type.id, { participationRate: Number(e.target.value) / 100 })}
+                    className={smallInputClassName}
+                  />
+                </label>
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Completes every
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={type.cadence.every}
+                    onChange={(e) => updateType(type.id, { cadence: { ...type.cadence, every: Number(e.target.value) } })}
+                    className={smallInputClassName}
+                  />
+                </label>
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  &nbsp;
+                  <select
+                    value={type.cadence.unit}
+                    onChange={(e) => updateType(type.id, { cadence: { ...type.cadence, unit: e.target.value as CadenceUnit } })}
+                    className={smallInputClassName}
+                  >
+                    {cadenceUnits.map((unit) => (
+                      <option key={unit} value={unit}>{cadenceUnitLabels[unit]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Lobby size (players)
+                  <input
+                    type="number"
+                    min="2"
+                    step="1"
+                    value={type.lobbySize}
+                    onChange={(e) => updateType(type.id, { lobbySize: Number(e.target.value) })}
+                    className={smallInputClassName}
+                    title="Used by profiles on the skill-rating placement model"
+                  />
+                </label>
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Chart markers
+                  <select
+                    value={type.annotation}
+                    onChange={(e) => updateType(type.id, { annotation: e.target.value as AnnotationStyle })}
+                    className={smallInputClassName}
+                  >
+                    {Object.entries(annotationStyles).map(([style, { label }]) => (
+                      <option key={style} value={style}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+                {errors.length > 0 && (
+                  <ul className="col-span-2 text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+                    {errors.map((error) => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+                <button
+                  onClick={() => onChange(gameTypes.filter((t) => t.id !== type.id))}
+                  className="col-span-2 px-3 py-1 bg-red-500 hover:bg-red-600 text-white rounded text-sm transition-colors"
+                >
+                  Remove Game Type
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={addType}
+          className="px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
+        >
+          + Add Game Type
+        </button>
+        <button
+          onClick={() => onChange(defaultGameTypes)}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors"
+          title="Restore the daily, weekly and monthly game types"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
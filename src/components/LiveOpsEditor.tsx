@@ -0,0 +1,132 @@
+'use client';
+
+import { GameTypeDefinition, MAX_GAMES_PER_CYCLE } from '@/lib/gameTypes';
+import { eventFromTemplate, LiveOpsEvent, liveOpsTemplates, validateLiveOpsEvent } from '@/lib/liveOps';
+
+interface LiveOpsEditorProps {
+  events: LiveOpsEvent[];
+  gameTypes: GameTypeDefinition[];
+  seasonStartDate: string;
+  onChange: (events: LiveOpsEvent[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+const fieldLabelClassName = 'block text-xs text-gray-600 dark:text-gray-400 mb-1';
+
+export default function LiveOpsEditor({ events, gameTypes, seasonStartDate, onChange }: LiveOpsEditorProps) {
+  const errors = Array.from(new Set(events.flatMap((event) => validateLiveOpsEvent(event, gameTypes))));
+
+  const updateEvent = (index: number, changes: Partial<LiveOpsEvent>) => {
+    onChange(events.map((event, i) => i === index ? { ...event, ...changes } : event));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Events boost placement XP on every day from start to end, and can add extra games of one type.
+      </p>
+      {events.map((event, index) => (
+        <div key={index} className="p-2 border border-gray-200 dark:border-gray-600 rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={event.name}
+              onChange={(e) => updateEvent(index, { name: e.target.value })}
+              className={inputClassName}
+              aria-label="Event name"
+            />
+            <input
+              type="color"
+              value={event.color}
+              onChange={(e) => updateEvent(index, { color: e.target.value })}
+              className="w-8 h-8 shrink-0 rounded cursor-pointer bg-transparent"
+              title="Chart shading color"
+            />
+            <button
+              onClick={() => onChange(events.filter((_, i) => i !== index))}
+              className="px-1 text-gray-500 hover:text-red-600 dark:text-gray-400 transition-colors"
+              title="Remove event"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={fieldLabelClassName}>Start</label>
+              <input
+                type="date"
+                value={event.startDate}
+                onChange={(e) => updateEvent(index, { startDate: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={fieldLabelClassName}>End</label>
+              <input
+                type="date"
+                value={event.endDate}
+                onChange={(e) => updateEvent(index, { endDate: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={fieldLabelClassName}>XP multiplier</label>
+              <input
+                type="number"
+                min="1"
+                step="0.25"
+                value={event.xpMultiplier}
+                onChange={(e) => updateEvent(index, { xpMultiplier: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={fieldLabelClassName}>Extra games/day</label>
+              <input
+                type="number"
+                min="0"
+                max={MAX_GAMES_PER_CYCLE}
+                value={event.extraGames}
+                onChange={(e) => updateEvent(index, { extraGames: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={fieldLabelClassName}>Played as</label>
+              <select
+                value={event.gameType}
+                onChange={(e) => updateEvent(index, { gameType: e.target.value })}
+                className={inputClassName}
+                disabled={event.extraGames === 0}
+              >
+                {!gameTypes.some((type) => type.id === event.gameType) && <option value={event.gameType}>—</option>}
+                {gameTypes.map((type) => (
+                  <option key={type.id} value={type.id}>{type.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {liveOpsTemplates.map((template) => (
+          <button
+            key={template.event.name}
+            onClick={() => onChange([...events, eventFromTemplate(template, seasonStartDate, gameTypes[0]?.id ?? '')])}
+            className="px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
+          >
+            + {template.event.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { LevelMilestone, MAX_MILESTONE_LEVEL, MilestoneReach, validateMilestone } from '@/lib/milestones';
+
+interface MilestoneTableProps {
+  milestones: LevelMilestone[];
+  timeline: MilestoneReach[]; // for the selected profile
+  totalXPToLevel: (level: number) => number;
+  onChange: (milestones: LevelMilestone[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+
+export default function MilestoneTable({ milestones, timeline, totalXPToLevel, onChange }: MilestoneTableProps) {
+  const errors = Array.from(new Set(milestones.flatMap(validateMilestone)));
+
+  const updateMilestone = (index: number, changes: Partial<LevelMilestone>) => {
+    onChange(milestones.map((milestone, i) => i === index ? { ...milestone, ...changes } : milestone));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <div className="grid grid-cols-[4rem_1fr_4rem_1.5rem] gap-2 text-xs text-gray-600 dark:text-gray-400">
+          <span>Level</span>
+          <span>Reward</span>
+          <span title="Repeat every N levels; 0 for once">Every</span>
+          <span></span>
+        </div>
+        {milestones.map((milestone, index) => (
+          <div key={index} className="grid grid-cols-[4rem_1fr_4rem_1.5rem] gap-2 items-center">
+            <input
+              type="number"
+              min="1"
+              max={MAX_MILESTONE_LEVEL}
+              value={milestone.level}
+              onChange={(e) => updateMilestone(index, { level: Number(e.target.value) })}
+              className={inputClassName}
+              aria-label="Milestone level"
+            />
+            <input
+              value={milestone.reward}
+              onChange={(e) => updateMilestone(index, { reward: e.target.value })}
+              className={inputClassName}
+              aria-label="Milestone reward"
+            />
+            <input
+              type="number"
+              min="0"
+              value={milestone.repeatEvery}
+              onChange={(e) => updateMilestone(index, { repeatEvery: Number(e.target.value) })}
+              className={inputClassName}
+              aria-label="Repeat every N levels"
+            />
+            <button
+              onClick={() => onChange(milestones.filter((_, i) => i !== index))}
+              className="text-gray-500 hover:text-red-600 dark:text-gray-400 transition-colors"
+              title="Remove milestone"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange([...milestones, { level: 100, reward: 'New reward', repeatEvery: 0 }])}
+          className="px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
+        >
+          + Add Milestone
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      {timeline.length > 0 && (
+        <div className="max-h-[240px] overflow-y-auto border border-gray-200 dark:border-gray-600 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-100 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+              <tr>
+                <th className="text-left px-2 py-2 font-semibold text-gray-900 dark:text-white">Level</th>
+                <th className="text-left px-2 py-2 font-semibold text-gray-900 dark:text-white">Reward</th>
+                <th className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white">Total XP</th>
+                <th className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white">Reached</th>
+              </tr>
+            </thead>
+            <tbody>
+              {timeline.map(({ level, reward, day, date }) => (
+                <tr key={`${level}-${reward}`} className="border-b border-gray-100 dark:border-gray-700">
+                  <td className="px-2 py-1 font-medium text-gray-900 dark:text-white">{level}</td>
+                  <td className="px-2 py-1 text-gray-600 dark:text-gray-400">{reward}</td>
+                  <td className="px-2 py-1 text-right text-gray-600 dark:text-gray-400 font-mono">
+                    {Math.floor(totalXPToLevel(level)).toLocaleString()}
+                  </td>
+                  <td
+                    className="px-2 py-1 text-right text-gray-600 dark:text-gray-400 text-xs"
+                    title={date ? date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }) : undefined}
+                  >
+                    {day === null || !date ? '—' : `Day ${day} · ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import {
+  DailyLoginModifier,
+  FirstWinModifier,
+  newBooster,
+  validateModifiers,
+  WinStreakModifier,
+  XPBooster,
+  XPModifiers,
+} from '@/lib/modifiers';
+
+interface ModifierEditorProps {
+  modifiers: XPModifiers;
+  winTierName: string; // name of the top tier, which counts as a win
+  onChange: (modifiers: XPModifiers) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+const toggleClassName = 'flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+const fieldLabelClassName = 'block text-xs text-gray-600 dark:text-gray-400 mb-1';
+
+export default function ModifierEditor({ modifiers, winTierName, onChange }: ModifierEditorProps) {
+  const errors = validateModifiers(modifiers);
+
+  const updateWinStreak = (changes: Partial<WinStreakModifier>) => {
+    onChange({ ...modifiers, winStreak: { ...modifiers.winStreak, ...changes } });
+  };
+
+  const updateFirstWin = (changes: Partial<FirstWinModifier>) => {
+    onChange({ ...modifiers, firstWin: { ...modifiers.firstWin, ...changes } });
+  };
+
+  const updateDailyLogin = (changes: Partial<DailyLoginModifier>) => {
+    onChange({ ...modifiers, dailyLogin: { ...modifiers.dailyLogin, ...changes } });
+  };
+
+  const updateBooster = (index: number, changes: Partial<XPBooster>) => {
+    onChange({ ...modifiers, boosters: modifiers.boosters.map((booster, i) => i === index ? { ...booster, ...changes } : booster) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Bonus XP on top of placement points. A game in the {winTierName} tier counts as a win.
+      </p>
+
+      <div>
+        <label className={toggleClassName}>
+          <input
+            type="checkbox"
+            checked={modifiers.winStreak.enabled}
+            onChange={(e) => updateWinStreak({ enabled: e.target.checked })}
+          />
+          Win Streaks
+        </label>
+        {modifiers.winStreak.enabled && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={fieldLabelClassName}>Bonus per win (%)</label>
+              <input
+                type="number"
+                min="0"
+                value={Math.round(modifiers.winStreak.bonusPerWin * 100)}
+                onChange={(e) => updateWinStreak({ bonusPerWin: Number(e.target.value) / 100 })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={fieldLabelClassName}>Max bonus (%)</label>
+              <input
+                type="number"
+                min="0"
+                value={Math.round(modifiers.winStreak.maxBonus * 100)}
+                onChange={(e) => updateWinStreak({ maxBonus: Number(e.target.value) / 100 })}
+                className={inputClassName}
+              />
+            </div>
+            <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+              Counts wins in the order games are rolled; in expected-value mode the bonus is averaged over each type&apos;s win odds.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={toggleClassName}>
+            <input
+              type="checkbox"
+              checked={modifiers.firstWin.enabled}
+              onChange={(e) => updateFirstWin({ enabled: e.target.checked })}
+            />
+            First Win of the Day
+          </label>
+          {modifiers.firstWin.enabled && (
+            <input
+              type="number"
+              min="0"
+              value={modifiers.firstWin.xp}
+              onChange={(e) => updateFirstWin({ xp: Number(e.target.value) })}
+              className={inputClassName}
+              aria-label="First win XP"
+            />
+          )}
+        </div>
+        <div>
+          <label className={toggleClassName}>
+            <input
+              type="checkbox"
+              checked={modifiers.dailyLogin.enabled}
+              onChange={(e) => updateDailyLogin({ enabled: e.target.checked })}
+            />
+            Daily Login
+          </label>
+          {modifiers.dailyLogin.enabled && (
+            <input
+              type="number"
+              min="0"
+              value={modifiers.dailyLogin.xp}
+              onChange={(e) => updateDailyLogin({ xp: Number(e.target.value) })}
+              className={inputClassName}
+              aria-label="Daily login XP"
+              title="Awarded on every day the player completes at least one game"
+            />
+          )}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">XP Boosters</div>
+        <div className="space-y-2">
+          {modifiers.boosters.map((booster, index) => (
+            <div key={index} className="p-2 border border-gray-200 dark:border-gray-600 rounded-lg space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={booster.enabled}
+                  onChange={(e) => updateBooster(index, { enabled: e.target.checked })}
+                  aria-label="Booster enabled"
+                />
+                <input
+                  value={booster.name}
+                  onChange={(e) => updateBooster(index, { name: e.target.value })}
+                  className={inputClassName}
+                  aria-label="Booster name"
+                />
+                <button
+                  onClick={() => onChange({ ...modifiers, boosters: modifiers.boosters.filter((_, i) => i !== index) })}
+                  className="px-1 text-gray-500 hover:text-red-600 dark:text-gray-400 transition-colors"
+                  title="Remove booster"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                <div>
+                  <label className={fieldLabelClassName}>Multiplier</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="0.25"
+                    value={booster.multiplier}
+                    onChange={(e) => updateBooster(index, { multiplier: Number(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={fieldLabelClassName}>Start day</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={booster.startDay}
+                    onChange={(e) => updateBooster(index, { startDay: Number(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={fieldLabelClassName}>Days</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={booster.durationDays}
+                    onChange={(e) => updateBooster(index, { durationDays: Number(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={fieldLabelClassName}>Repeat every</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={booster.repeatEveryDays}
+                    onChange={(e) => updateBooster(index, { repeatEveryDays: Number(e.target.value) })}
+                    className={inputClassName}
+                    title="Days between windows; 0 for a single window, e.g. a purchased booster"
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => onChange({ ...modifiers, boosters: [...modifiers.boosters, newBooster()] })}
+          className="mt-2 px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
+        >
+          + Add Booster
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
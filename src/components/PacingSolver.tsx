@@ -0,0 +1,160 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { curveFamilies, CurveDefinition, simpleCurveFamilies, SimpleCurve } from '@/lib/curves';
+import { PlayerProfile, PlayerProfiles } from '@/lib/profiles';
+import { evaluateGoals, PacingGoal, solveCurve, SolveResult } from '@/lib/solver';
+
+interface PacingSolverProps {
+  curve: CurveDefinition;
+  profiles: PlayerProfiles;
+  cumulativeXPByProfile: Record<PlayerProfile, number[]>;
+  seasonLength: number; // days in the season, the latest a goal can target
+  onApply: (curve: CurveDefinition) => void;
+}
+
+// Year-end goals land on the season's last day
+const defaultGoals = (seasonLength: number): PacingGoal[] => [
+  { id: 'goal-1', profile: 'average', level: 50, day: 90 },
+  { id: 'goal-2', profile: 'average', level: 200, day: seasonLength },
+  { id: 'goal-3', profile: 'wins-everything', level: 500, day: seasonLength },
+];
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+
+export default function PacingSolver({ curve, profiles, cumulativeXPByProfile, seasonLength, onApply }: PacingSolverProps) {
+  const [goals, setGoals] = useState<PacingGoal[]>(() => defaultGoals(seasonLength));
+  const [lastSolve, setLastSolve] = useState<SolveResult | null>(null);
+
+  // Goals past the end of a shorter season move to its last day
+  const seasonGoals = useMemo(() => {
+    return goals.map((goal) => goal.day > seasonLength ? { ...goal, day: seasonLength } : goal);
+  }, [goals, seasonLength]);
+
+  const isSolvable = (simpleCurveFamilies as string[]).includes(curve.family);
+  const residuals = useMemo(() => evaluateGoals(curve, seasonGoals, cumulativeXPByProfile), [curve, seasonGoals, cumulativeXPByProfile]);
+
+  const updateGoal = (id: string, changes: Partial<PacingGoal>) => {
+    setGoals(goals.map((goal) => goal.id === id ? { ...goal, ...changes } : goal));
+  };
+
+  const handleSolve = () => {
+    const result = solveCurve(curve as SimpleCurve, seasonGoals, cumulativeXPByProfile);
+    setLastSolve(result);
+    onApply(result.curve);
+  };
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          🎯 Target Pacing Solver
+        </h3>
+        <button
+          onClick={handleSolve}
+          disabled={!isSolvable || goals.length === 0}
+          className="px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Solve {curveFamilies[curve.family].name} Coefficients
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        State when each profile should reach a level; the solver fits the curve coefficients to the simulated XP trajectories (least squares on log XP).
+        {!isSolvable && (
+          <span className="block text-orange-500 mt-1">
+            Piecewise and lookup-table curves can&apos;t be solved; switch to a single formula first.
+          </span>
+        )}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100 dark:bg-gray-700">
+            <tr>
+              <th className="text-left px-2 py-2 font-semibold text-gray-900 dark:text-white">Profile</th>
+              <th className="text-left px-2 py-2 font-semibold text-gray-900 dark:text-white">Level</th>
+              <th className="text-left px-2 py-2 font-semibold text-gray-900 dark:text-white">By Day</th>
+              <th className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white">Level on Day</th>
+              <th className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white">Day Reached</th>
+              <th className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white">Residual</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {residuals.map(({ goal, levelOnDay, dayReached }) => {
+              const levelResidual = levelOnDay - goal.level;
+              return (
+                <tr key={goal.id} className="border-b border-gray-100 dark:border-gray-700">
+                  <td className="px-2 py-1">
+                    <select
+                      value={goal.profile}
+                      onChange={(e) => updateGoal(goal.id, { profile: e.target.value as PlayerProfile })}
+                      className={inputClassName}
+                    >
+                      {Object.entries(profiles).map(([key, profile]) => (
+                        <option key={key} value={key}>{profile.icon} {profile.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="number"
+                      min="1"
+                      value={goal.level}
+                      onChange={(e) => updateGoal(goal.id, { level: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="number"
+                      min="1"
+                      max={seasonLength}
+                      value={goal.day}
+                      onChange={(e) => updateGoal(goal.id, { day: Math.min(seasonLength, Math.max(1, Number(e.target.value))) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-2 py-1 text-right font-mono text-gray-900 dark:text-white">{levelOnDay}</td>
+                  <td className="px-2 py-1 text-right font-mono text-gray-600 dark:text-gray-400">
+                    {dayReached ?? 'never'}
+                  </td>
+                  <td className={`px-2 py-1 text-right font-mono ${
+                    Math.abs(levelResidual) <= Math.max(1, goal.level * 0.05)
+                      ? 'text-green-600 dark:text-green-400'
+                      : 'text-red-600 dark:text-red-400'
+                  }`}>
+                    {levelResidual > 0 ? '+' : ''}{levelResidual} lvl
+                  </td>
+                  <td className="px-2 py-1 text-right">
+                    <button
+                      onClick={() => setGoals(goals.filter((g) => g.id !== goal.id))}
+                      className="p-1 text-gray-500 hover:text-red-600 dark:text-gray-400 transition-colors"
+                      title="Remove goal"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between text-xs text-gray-500 dark:text-gray-500">
+        <button
+          onClick={() => setGoals([...goals, { id: `goal-${Date.now()}`, profile: Object.keys(profiles)[0], level: 100, day: 180 }])}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors"
+        >
+          + Add goal
+        </button>
+        {lastSolve && (
+          <span>
+            Last solve: RMS log-XP error {lastSolve.error.toFixed(3)} after {lastSolve.iterations} iterations
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,456 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import { useOnDemandResult } from '@/hooks/useOnDemandResult';
+import { histogram } from '@/lib/monteCarlo';
+import {
+  defaultPopulation,
+  POPULATION_PERCENTILES,
+  PopulationConfig,
+  PopulationResult,
+  simulatePopulationInChunks,
+  validatePopulation,
+} from '@/lib/population';
+import { PlayerProfiles } from '@/lib/profiles';
+import { parseRetentionCSV, RETENTION_DAYS, RetentionCurveError, RetentionModel } from '@/lib/retention';
+import { SimulationConfig } from '@/lib/simulation';
+
+interface PopulationPanelProps {
+  config: SimulationConfig;
+  profiles: PlayerProfiles;
+  population: PopulationConfig;
+  onChange: (population: PopulationConfig) => void;
+}
+
+const smallInputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+
+export default function PopulationPanel({ config, profiles, population, onChange }: PopulationPanelProps) {
+  const [progress, setProgress] = useState<number>(0); // share of players simulated so far
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const errors = validatePopulation(population, profiles);
+  const { result, isStale, isRunning, error: runError, run: runPopulation } = useOnDemandResult<PopulationResult>([config, profiles, population]);
+  const totalWeight = Object.entries(population.profileWeights)
+    .filter(([id]) => id in profiles)
+    .reduce((sum, [, weight]) => sum + weight, 0);
+  const totalShare = population.activityLevels.reduce((sum, level) => sum + level.share, 0);
+
+  // Players are simulated in chunks between browser frames, so the page stays usable and shows progress
+  const run = () => {
+    setProgress(0);
+    runPopulation(() => simulatePopulationInChunks(config, profiles, population, config.seed, setProgress));
+  };
+
+  const updateRetention = (changes: Partial<RetentionModel>) => {
+    onChange({ ...population, retention: { ...population.retention, ...changes } });
+  };
+
+  const importCurve = async (file: File) => {
+    try {
+      updateRetention({ curve: parseRetentionCSV(await file.text()) });
+      setImportError(null);
+    } catch (error) {
+      setImportError(`${file.name}: ${error instanceof RetentionCurveError ? error.message : 'the file could not be read'}`);
+    }
+  };
+
+  const updateLevel = (index: number, changes: Partial<PopulationConfig['activityLevels'][number]>) => {
+    onChange({
+      ...population,
+      activityLevels: population.activityLevels.map((level, i) => i === index ? { ...level, ...changes } : level)
+    });
+  };
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+        Population Simulation
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Simulate a whole player base drawn from the profile and activity mix below to see where the leaderboard ends up after a season.
+      </p>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        {/* Population mix */}
+        <div className="space-y-4">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Players
+            <input
+              type="number"
+              min="1"
+              step="1000"
+              value={population.size}
+              onChange={(e) => onChange({ ...population, size: Number(e.target.value) })}
+              className={smallInputClassName}
+            />
+          </label>
+
+          <div>
+            <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Profile Mix (%)</div>
+            <div className="grid grid-cols-2 gap-2">
+              {Object.entries(profiles).map(([id, profile]) => (
+                <label key={id} className="text-xs text-gray-600 dark:text-gray-400">
+                  {profile.icon} {profile.name}
+                  <input
+                    type="number"
+                    min="0"
+                    value={Math.round((population.profileWeights[id] ?? 0) * 1000) / 10}
+                    onChange={(e) => onChange({
+                      ...population,
+                      profileWeights: { ...population.profileWeights, [id]: Number(e.target.value) / 100 }
+                    })}
+                    className={smallInputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+            {totalWeight > 0 && Math.abs(totalWeight - 1) > 1e-6 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Weights total {Math.round(totalWeight * 1000) / 10}% and are scaled to 100%
+              </p>
+            )}
+          </div>
+
+          <div>
+            <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Activity Levels</div>
+            <div className="grid grid-cols-7 gap-2 text-xs text-gray-600 dark:text-gray-400 mb-1">
+              <span className="col-span-3">Name</span>
+              <span className="col-span-2">Plays %</span>
+              <span className="col-span-2">Share %</span>
+            </div>
+            <div className="space-y-2">
+              {population.activityLevels.map((level, index) => (
+                <div key={index} className="grid grid-cols-7 gap-2 items-center">
+                  <input
+                    value={level.name}
+                    onChange={(e) => updateLevel(index, { name: e.target.value })}
+                    className={`${smallInputClassName} col-span-3`}
+                    aria-label="Activity level name"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={Math.round(level.participation * 100)}
+                    onChange={(e) => updateLevel(index, { participation: Number(e.target.value) / 100 })}
+                    className={`${smallInputClassName} col-span-2`}
+                    aria-label="Share of games played"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    value={Math.round(level.share * 1000) / 10}
+                    onChange={(e) => updateLevel(index, { share: Number(e.target.value) / 100 })}
+                    className={`${smallInputClassName} col-span-2`}
+                    aria-label="Share of players"
+                  />
+                </div>
+              ))}
+            </div>
+            {totalShare > 0 && Math.abs(totalShare - 1) > 1e-6 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Shares total {Math.round(totalShare * 1000) / 10}% and are scaled to 100%
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2 mt-2">
+              <button
+                onClick={() => onChange({
+                  ...population,
+                  activityLevels: [...population.activityLevels, { name: 'New Level', participation: 0.5, share: 0.1 }]
+                })}
+                className="px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
+              >
+                + Add Level
+              </button>
+              <button
+                onClick={() => onChange({ ...population, activityLevels: population.activityLevels.slice(0, -1) })}
+                disabled={population.activityLevels.length <= 1}
+                className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors disabled:opacity-50"
+              >
+                Remove Last
+              </button>
+              <button
+                onClick={() => onChange({ ...population, activityLevels: defaultPopulation.activityLevels })}
+                className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors"
+                title="Restore the casual, regular and dedicated levels"
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              <input
+                type="checkbox"
+                checked={population.retention.enabled}
+                onChange={(e) => updateRetention({ enabled: e.target.checked })}
+              />
+              Model Retention (churn)
+            </label>
+            {population.retention.enabled && (
+              <>
+                <div className={`grid grid-cols-4 gap-2 ${population.retention.curve ? 'opacity-50' : ''}`}>
+                  {RETENTION_DAYS.map((key) => (
+                    <label key={key} className="text-xs text-gray-600 dark:text-gray-400">
+                      {key.toUpperCase()} %
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={Math.round(population.retention[key] * 1000) / 10}
+                        onChange={(e) => updateRetention({ [key]: Number(e.target.value) / 100 })}
+                        disabled={population.retention.curve !== null}
+                        className={smallInputClassName}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {population.retention.curve
+                    ? `Imported curve with ${population.retention.curve.length} days; the last value holds after that`
+                    : 'Share of players still playing after each day. Import a CSV of day,retained% rows to use a measured curve.'}
+                </p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded text-sm transition-colors"
+                  >
+                    Import CSV
+                  </button>
+                  {population.retention.curve && (
+                    <button
+                      onClick={() => updateRetention({ curve: null })}
+                      className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors"
+                    >
+                      Use D1–D90
+                    </button>
+                  )}
+                </div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="text/csv,.csv,.txt"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importCurve(file);
+                    e.target.value = ''; // Allow re-importing the same file
+                  }}
+                />
+                {importError && (
+                  <p className="mt-2 text-xs text-red-600 dark:text-red-400">{importError}</p>
+                )}
+              </>
+            )}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+              {errors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <button
+            onClick={run}
+            disabled={errors.length > 0 || isRunning}
+            className="w-full px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRunning ? `Simulating… ${Math.round(progress * 100)}%` : `Simulate ${population.size.toLocaleString()} Players`}
+          </button>
+          {runError && (
+            <p className="text-xs text-red-600 dark:text-red-400">The simulation failed: {runError}</p>
+          )}
+        </div>
+
+        {/* Results */}
+        <div className={`md:col-span-2 space-y-6 ${isStale ? 'opacity-60' : ''}`}>
+          {!result ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Run the simulation to see the year-end level histogram, levels by month and milestone reach.
+            </p>
+          ) : (
+            <>
+              {isStale && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  The settings changed since this run. Simulate again to update the results.
+                </p>
+              )}
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                  Year-End Levels ({result.size.toLocaleString()} players)
+                </h4>
+                {(() => {
+                  const bins = histogram(result.finalLevels, 24);
+                  const maxCount = Math.max(...bins.map((bin) => bin.count));
+                  return (
+                    <div className="flex items-end gap-0.5 h-32 mb-1">
+                      {bins.map((bin) => (
+                        <div
+                          key={bin.from}
+                          className="flex-1 bg-indigo-400 dark:bg-indigo-500 rounded-t"
+                          style={{ height: `${(bin.count / maxCount) * 100}%` }}
+                          title={`Level ${bin.from}${bin.to > bin.from ? `–${bin.to}` : ''}: ${bin.count.toLocaleString()} players`}
+                        ></div>
+                      ))}
+                    </div>
+                  );
+                })()}
+                <div className="flex justify-between text-xs text-gray-500 dark:text-gray-500">
+                  <span>L{result.finalLevels[0]}</span>
+                  <span>L{result.finalLevels[result.finalLevels.length - 1]}</span>
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <div className="overflow-x-auto">
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Level Percentiles by Day</h4>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-600 dark:text-gray-400">
+                        <th className="text-left py-1 font-medium">Day</th>
+                        {POPULATION_PERCENTILES.map((p) => (
+                          <th key={p} className="text-right py-1 font-medium">p{p}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.checkpoints.map((checkpoint) => (
+                        <tr key={checkpoint.day} className="border-t border-gray-100 dark:border-gray-700">
+                          <td className="py-1 text-gray-900 dark:text-white" title={checkpoint.date.toLocaleDateString('en-US')}>
+                            {checkpoint.day}
+                            <span className="ml-1 text-gray-500">
+                              {checkpoint.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                            </span>
+                          </td>
+                          {checkpoint.levels.map((level, i) => (
+                            <td key={POPULATION_PERCENTILES[i]} className="py-1 text-right font-mono text-gray-600 dark:text-gray-400">
+                              {level}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Milestone Reach</h4>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-600 dark:text-gray-400">
+                        <th className="text-left py-1 font-medium">Level</th>
+                        <th className="text-right py-1 font-medium">Players</th>
+                        {result.churn.length > 0 && <th className="text-right py-1 font-medium">Never</th>}
+                        <th className="text-right py-1 font-medium">Median Day</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.milestones.map((milestone) => (
+                        <tr key={milestone.level} className="border-t border-gray-100 dark:border-gray-700">
+                          <td className="py-1 text-gray-900 dark:text-white">{milestone.level}</td>
+                          <td className="py-1 text-right font-mono text-gray-600 dark:text-gray-400">
+                            {Math.round(milestone.fraction * 1000) / 10}%
+                          </td>
+                          {result.churn.length > 0 && (
+                            <td className="py-1 text-right font-mono text-red-600 dark:text-red-400">
+                              {Math.round((1 - milestone.fraction) * 1000) / 10}%
+                            </td>
+                          )}
+                          <td className="py-1 text-right font-mono text-gray-600 dark:text-gray-400">
+                            {milestone.medianDay ?? '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {result.churn.length > 0 && (
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div className="overflow-x-auto">
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                      Level at Churn
+                      {result.meanLevelAtChurn !== null && (
+                        <span className="ml-2 font-normal text-gray-500">
+                          average {Math.round(result.meanLevelAtChurn * 10) / 10}
+                        </span>
+                      )}
+                    </h4>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-gray-600 dark:text-gray-400">
+                          <th className="text-left py-1 font-medium">Stops Playing</th>
+                          <th className="text-right py-1 font-medium">Players</th>
+                          <th className="text-right py-1 font-medium">Avg Level</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.churn.map((bucket) => (
+                          <tr key={bucket.label} className="border-t border-gray-100 dark:border-gray-700">
+                            <td className="py-1 text-gray-900 dark:text-white">{bucket.label}</td>
+                            <td className="py-1 text-right font-mono text-gray-600 dark:text-gray-400">
+                              {Math.round(bucket.share * 1000) / 10}%
+                            </td>
+                            <td className="py-1 text-right font-mono text-gray-600 dark:text-gray-400">
+                              {bucket.meanLevel === null ? '—' : Math.round(bucket.meanLevel * 10) / 10}
+                            </td>
+                          </tr>
+                        ))}
+                        <tr className="border-t border-gray-100 dark:border-gray-700">
+                          <td className="py-1 text-gray-900 dark:text-white">Plays all season</td>
+                          <td className="py-1 text-right font-mono text-gray-600 dark:text-gray-400">
+                            {Math.round(result.activeShare[result.activeShare.length - 1] * 1000) / 10}%
+                          </td>
+                          <td className="py-1 text-right font-mono text-gray-600 dark:text-gray-400">—</td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Average XP: Survivors vs Everyone</h4>
+                    <Line
+                      data={{
+                        labels: result.averageXP.map((_, day) => day + 1),
+                        datasets: [
+                          {
+                            label: 'Still playing',
+                            data: result.survivorXP,
+                            borderColor: 'rgb(99, 102, 241)',
+                            pointRadius: 0,
+                            borderWidth: 2
+                          },
+                          {
+                            label: 'Everyone (frozen at churn)',
+                            data: result.averageXP,
+                            borderColor: 'rgb(156, 163, 175)',
+                            borderDash: [4, 4],
+                            pointRadius: 0,
+                            borderWidth: 2
+                          }
+                        ]
+                      }}
+                      options={{
+                        responsive: true,
+                        plugins: { legend: { position: 'bottom' as const, labels: { boxWidth: 12, font: { size: 10 } } } },
+                        scales: {
+                          x: { title: { display: true, text: 'Day' }, ticks: { maxTicksLimit: 12 } },
+                          y: { title: { display: true, text: 'XP' } }
+                        }
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
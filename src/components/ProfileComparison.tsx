@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { PlayerProfile, PlayerProfiles } from '@/lib/profiles';
+import { firstDayAtLevel, SimulationResult } from '@/lib/simulation';
+
+interface ProfileComparisonProps {
+  profiles: PlayerProfiles;
+  comparedProfiles: PlayerProfile[];
+  simulations: Record<PlayerProfile, SimulationResult>;
+  colors: Record<PlayerProfile, string>;
+}
+
+export default function ProfileComparison({ profiles, comparedProfiles, simulations, colors }: ProfileComparisonProps) {
+  const [milestoneText, setMilestoneText] = useState<string>('10, 25, 50, 100, 200');
+  const milestones = Array.from(new Set(milestoneText
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((level) => Number.isInteger(level) && level > 0)));
+
+  const rows = comparedProfiles
+    .filter((id) => profiles[id] && simulations[id])
+    .map((id) => {
+      const simulation = simulations[id];
+      return {
+        id,
+        profile: profiles[id],
+        finalLevel: simulation.levels[simulation.levels.length - 1] ?? 0,
+        totalXP: simulation.cumulativeXP[simulation.cumulativeXP.length - 1] ?? 0,
+        milestoneDays: milestones.map((level) => firstDayAtLevel(simulation.levels, level))
+      };
+    });
+
+  // Spread between the best and worst compared profile for each column
+  const spread = (values: (number | null)[]) => {
+    const known = values.filter((value): value is number => value !== null);
+    if (known.length < 2) return null;
+    return Math.max(...known) - Math.min(...known);
+  };
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Profile Comparison
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          Milestone levels
+          <input
+            value={milestoneText}
+            onChange={(e) => setMilestoneText(e.target.value)}
+            className="w-48 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100 dark:bg-gray-700">
+            <tr>
+              <th className="text-left px-2 py-2 font-semibold text-gray-900 dark:text-white">Profile</th>
+              <th className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white">Final Level</th>
+              <th className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white">Total XP</th>
+              {milestones.map((level) => (
+                <th key={level} className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white text-xs">
+                  Day to L{level}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.id} className="border-b border-gray-100 dark:border-gray-700">
+                <td className="px-2 py-1 font-medium text-gray-900 dark:text-white">
+                  <span className="inline-block w-3 h-3 rounded-full mr-2 align-middle" style={{ backgroundColor: colors[row.id] }}></span>
+                  {row.profile.icon} {row.profile.name}
+                </td>
+                <td className="px-2 py-1 text-right font-mono text-gray-900 dark:text-white">{row.finalLevel}</td>
+                <td className="px-2 py-1 text-right font-mono text-gray-600 dark:text-gray-400">{row.totalXP.toLocaleString()}</td>
+                {row.milestoneDays.map((day, i) => (
+                  <td key={milestones[i]} className="px-2 py-1 text-right font-mono text-gray-600 dark:text-gray-400">
+                    {day ?? '—'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          {rows.length > 1 && (
+            <tfoot>
+              <tr className="bg-gray-50 dark:bg-gray-700/50 font-semibold">
+                <td className="px-2 py-2 text-gray-900 dark:text-white">Best − Worst</td>
+                <td className="px-2 py-2 text-right font-mono text-purple-600 dark:text-purple-400">
+                  {spread(rows.map((row) => row.finalLevel)) ?? '—'}
+                </td>
+                <td className="px-2 py-2 text-right font-mono text-purple-600 dark:text-purple-400">
+                  {spread(rows.map((row) => row.totalXP))?.toLocaleString() ?? '—'}
+                </td>
+                {milestones.map((level, i) => (
+                  <td key={level} className="px-2 py-2 text-right font-mono text-purple-600 dark:text-purple-400">
+                    {spread(rows.map((row) => row.milestoneDays[i])) ?? '—'}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+      <div className="mt-3 text-xs text-gray-500 dark:text-gray-500">
+        * &quot;—&quot; means the level isn&apos;t reached within the year; day spreads only count profiles that reach it
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  fitProfilesToTiers,
+  nextSeedOffset,
+  PlayerProfile,
+  PlayerProfileDefinition,
+  PlayerProfiles,
+  playerProfiles,
+  profileColorOptions,
+  validateProfile,
+} from '@/lib/profiles';
+import { DEFAULT_RATING } from '@/lib/rating';
+import { PlacementTier, tierProbability } from '@/lib/tiers';
+
+interface ProfileEditorProps {
+  profiles: PlayerProfiles;
+  tiers: PlacementTier[];
+  selectedProfile: PlayerProfile;
+  onChange: (profiles: PlayerProfiles, selectedProfile: PlayerProfile) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+const newProfileId = () => `custom-${Date.now().toString(36)}`;
+
+export default function ProfileEditor({ profiles, tiers, selectedProfile, onChange, onClose }: ProfileEditorProps) {
+  const [editingId, setEditingId] = useState<PlayerProfile>(selectedProfile);
+  const [draft, setDraft] = useState<PlayerProfileDefinition>(profiles[selectedProfile]);
+
+  const errors = validateProfile(draft, tiers.map((tier) => tier.id));
+  const distributionTotal = tiers.reduce((sum, tier) => sum + tierProbability(draft.distribution, tier.id), 0);
+  const isNew = !(editingId in profiles);
+
+  const startEditing = (id: PlayerProfile, profile: PlayerProfileDefinition) => {
+    setEditingId(id);
+    setDraft(profile);
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    onChange({ ...profiles, [editingId]: draft }, editingId);
+  };
+
+  const handleDelete = () => {
+    const remaining = { ...profiles };
+    delete remaining[editingId];
+    const [fallbackId] = Object.keys(remaining);
+    onChange(remaining, selectedProfile === editingId ? fallbackId : selectedProfile);
+    startEditing(fallbackId, remaining[fallbackId]);
+  };
+
+  return (
+    <div className="mt-4 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Manage Player Profiles
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+          title="Close profile editor"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        {/* Profile List */}
+        <div className="space-y-2">
+          {Object.entries(profiles).map(([id, profile]) => (
+            <button
+              key={id}
+              onClick={() => startEditing(id, profile)}
+              className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg border text-left text-sm transition-colors ${
+                editingId === id
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-gray-900 dark:text-white'
+                  : 'border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-400'
+              }`}
+            >
+              <span>{profile.icon}</span>
+              <span className="font-medium">{profile.name}</span>
+            </button>
+          ))}
+          {isNew && (
+            <div className="w-full flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-blue-500 text-sm text-gray-900 dark:text-white">
+              <span>{draft.icon}</span>
+              <span className="font-medium">{draft.name || 'New profile'}</span>
+              <span className="ml-auto text-xs text-gray-500">unsaved</span>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2 pt-2">
+            <button
+              onClick={() => startEditing(newProfileId(), {
+                name: 'New Profile',
+                icon: '🧑',
+                description: '',
+                distribution: Object.fromEntries(tiers.map((tier) => [tier.id, 1 / tiers.length])),
+                color: profileColorOptions[4],
+                seedOffset: nextSeedOffset(profiles)
+              })}
+              className="px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
+            >
+              + New
+            </button>
+            <button
+              onClick={() => startEditing(newProfileId(), {
+                ...draft,
+                name: `${draft.name} (copy)`,
+                seedOffset: nextSeedOffset(profiles)
+              })}
+              className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded text-sm transition-colors"
+            >
+              Duplicate
+            </button>
+            <button
+              onClick={() => {
+                const builtIns = fitProfilesToTiers(playerProfiles, tiers);
+                onChange(builtIns, selectedProfile in builtIns ? selectedProfile : 'average');
+                startEditing('average', builtIns.average);
+              }}
+              className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors"
+              title="Discard custom profiles and restore the four built-in ones"
+            >
+              Reset to Built-ins
+            </button>
+          </div>
+        </div>
+
+        {/* Profile Form */}
+        <div className="md:col-span-2 space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="profileIcon" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Icon
+              </label>
+              <input
+                id="profileIcon"
+                value={draft.icon}
+                onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+                className={`${inputClassName} text-center`}
+              />
+            </div>
+            <div className="col-span-3">
+              <label htmlFor="profileName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Name
+              </label>
+              <input
+                id="profileName"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="profileDescription" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Description
+            </label>
+            <input
+              id="profileDescription"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <div className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Color</div>
+            <div className="flex flex-wrap gap-2">
+              {profileColorOptions.map((color) => (
+                <button
+                  key={color}
+                  onClick={() => setDraft({ ...draft, color })}
+                  className={`w-8 h-8 rounded-full border-2 ${color} ${
+                    draft.color === color ? 'border-gray-900 dark:border-white scale-110' : 'border-transparent'
+                  }`}
+                  title={color.split(' ')[0]}
+                ></button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="profileModel" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Placement Model
+              </label>
+              <select
+                id="profileModel"
+                value={draft.rating === undefined ? 'distribution' : 'rating'}
+                onChange={(e) => setDraft({ ...draft, rating: e.target.value === 'rating' ? DEFAULT_RATING : undefined })}
+                className={inputClassName}
+              >
+                <option value="distribution">Fixed placement odds</option>
+                <option value="rating">Skill rating vs. lobby</option>
+              </select>
+            </div>
+            {draft.rating !== undefined && (
+              <div>
+                <label htmlFor="profileRating" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Skill Rating (Elo)
+                </label>
+                <input
+                  type="number"
+                  id="profileRating"
+                  step="25"
+                  value={draft.rating}
+                  onChange={(e) => setDraft({ ...draft, rating: Number(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className={draft.rating === undefined ? '' : 'opacity-50'}>
+            <div className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Placement Distribution
+              <span className={`ml-2 text-xs ${
+                Math.abs(distributionTotal - 1) > 1e-6 ? 'text-red-500' : 'text-green-600 dark:text-green-400'
+              }`}>
+                Total {Math.round(distributionTotal * 1000) / 10}%
+              </span>
+              {draft.rating !== undefined && (
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">kept for switching back to fixed odds</span>
+              )}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {tiers.map((tier) => (
+                <div key={tier.id}>
+                  <label htmlFor={`profile-${tier.id}`} className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                    {tier.icon} {tier.name} (%)
+                  </label>
+                  <input
+                    type="number"
+                    id={`profile-${tier.id}`}
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={Math.round(tierProbability(draft.distribution, tier.id) * 10000) / 100}
+                    onChange={(e) => setDraft({
+                      ...draft,
+                      distribution: { ...draft.distribution, [tier.id]: Number(e.target.value) / 100 }
+                    })}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 dark:text-red-400 list-disc list-inside">
+              {errors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex gap-2 pt-2 border-t border-gray-200 dark:border-gray-600">
+            <button
+              onClick={handleSave}
+              disabled={errors.length > 0}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isNew ? 'Create Profile' : 'Save Changes'}
+            </button>
+            {!isNew && (
+              <button
+                onClick={handleDelete}
+                disabled={Object.keys(profiles).length <= 1}
+                className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { GameTypeDefinition, rewardPoints, tierReward } from '@/lib/gameTypes';
+import { PlacementReward, PlacementTier, RewardScaling, rewardScalingLabels } from '@/lib/tiers';
+
+interface RewardTableEditorProps {
+  gameTypes: GameTypeDefinition[];
+  tiers: PlacementTier[];
+  onChange: (gameTypes: GameTypeDefinition[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+
+export default function RewardTableEditor({ gameTypes, tiers, onChange }: RewardTableEditorProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const type = gameTypes.find((t) => t.id === selectedId) ?? gameTypes[0];
+
+  if (!type) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Add a game type to set its rewards.</p>;
+  }
+
+  // Editing a tier the type doesn't override yet starts from the tier's default reward
+  const updateReward = (tier: PlacementTier, changes: Partial<PlacementReward>) => {
+    onChange(gameTypes.map((t) => t.id === type.id
+      ? { ...t, rewards: { ...t.rewards, [tier.id]: { ...tierReward(t, tier), ...changes } } }
+      : t));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {gameTypes.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => setSelectedId(t.id)}
+            className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+              t.id === type.id
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-gray-900 dark:text-white'
+                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:border-gray-400'
+            }`}
+          >
+            {t.name || 'Unnamed'}
+          </button>
+        ))}
+      </div>
+
+      {tiers.map((tier) => {
+        const reward = tierReward(type, tier);
+        return (
+          <div key={tier.id}>
+            <div className="flex items-baseline justify-between mb-1">
+              <label htmlFor={`reward-${tier.id}`} className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                <span className="inline-block w-2 h-2 rounded-full mr-1 align-middle" style={{ backgroundColor: tier.color }}></span>
+                {tier.icon} {tier.name}
+              </label>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                = {rewardPoints(type, tier).toLocaleString()} XP per game
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <input
+                type="number"
+                id={`reward-${tier.id}`}
+                min="0"
+                value={reward.points}
+                onChange={(e) => updateReward(tier, { points: Number(e.target.value) })}
+                className={inputClassName}
+                title={reward.scaling === 'perDay' ? 'Points per day of game duration' : 'Points per game'}
+              />
+              <select
+                value={reward.scaling}
+                onChange={(e) => updateReward(tier, { scaling: e.target.value as RewardScaling })}
+                className={inputClassName}
+                aria-label="Scaling rule"
+              >
+                {Object.entries(rewardScalingLabels).map(([scaling, label]) => (
+                  <option key={scaling} value={scaling}>
+                    {scaling === 'perDay' ? `${label} (×${type.durationDays})` : label}
+                  </option>
+                ))}
+              </select>
+              {reward.scaling === 'multiplier' && (
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={reward.multiplier}
+                  onChange={(e) => updateReward(tier, { multiplier: Number(e.target.value) })}
+                  className={inputClassName}
+                  aria-label="Custom multiplier"
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
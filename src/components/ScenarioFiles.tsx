@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { downloadFile } from '@/lib/download';
+import { parseScenarioFile, Scenario, ScenarioError, serializeScenarioFile } from '@/lib/scenario';
+
+interface ScenarioFilesProps {
+  scenario: Scenario;
+  problem?: string; // why the scenario wouldn't load back; export is blocked while set
+  onImport: (scenario: Scenario) => void;
+  onError: (message: string) => void;
+}
+
+export default function ScenarioFiles({ scenario, problem, onImport, onError }: ScenarioFilesProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+
+  const importFile = async (file: File) => {
+    try {
+      onImport(parseScenarioFile(await file.text()));
+    } catch (error) {
+      const reason = error instanceof ScenarioError ? error.message : 'the file could not be read';
+      onError(`${file.name}: ${reason}`);
+    }
+  };
+
+  // The window listeners are added once, so they call the latest importFile through a ref
+  const importFileRef = useRef(importFile);
+  importFileRef.current = importFile;
+
+  // Accept scenario files dropped anywhere on the page, unless another drop zone handled the drop first
+  useEffect(() => {
+    const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes('Files') ?? false;
+    // Item types are all the browser exposes while dragging; some systems leave them blank
+    const isScenarioDrag = (event: DragEvent) => Array.from(event.dataTransfer?.items ?? [])
+      .some((item) => item.kind === 'file' && (item.type === 'application/json' || item.type === ''));
+    const isScenarioFile = (file: File) => file.type === 'application/json' || /\.json$/i.test(file.name);
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event) || event.defaultPrevented) return;
+      event.preventDefault();
+      const accepted = isScenarioDrag(event);
+      if (event.dataTransfer) event.dataTransfer.dropEffect = accepted ? 'copy' : 'none';
+      setIsDragging(accepted);
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      // relatedTarget is null once the pointer leaves the window
+      if (event.relatedTarget === null) setIsDragging(false);
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event) || event.defaultPrevented) return;
+      event.preventDefault();
+      setIsDragging(false);
+      const file = event.dataTransfer?.files[0];
+      if (file && isScenarioFile(file)) importFileRef.current(file);
+    };
+
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  const exportScenario = () => {
+    if (problem) return;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`xp-scenario-${scenario.profile}-${date}.json`, serializeScenarioFile(scenario), 'application/json');
+  };
+
+  return (
+    <>
+      <button
+        onClick={exportScenario}
+        disabled={problem !== undefined}
+        className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-400 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title={problem ? 'Fix the problem below to export this scenario' : 'Download the scenario as a versioned JSON file'}
+      >
+        💾 Export JSON
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-400 rounded-lg text-sm transition-colors"
+        title="Load a scenario JSON file (or drop one anywhere on the page)"
+      >
+        📂 Import JSON
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importFile(file);
+          e.target.value = ''; // Allow re-importing the same file
+        }}
+      />
+
+      {/* Drop Overlay */}
+      {isDragging && (
+        <div className="fixed inset-0 z-50 bg-indigo-500/20 border-4 border-dashed border-indigo-500 flex items-center justify-center pointer-events-none">
+          <div className="px-6 py-4 bg-white dark:bg-gray-800 rounded-lg shadow-lg text-lg font-semibold text-gray-900 dark:text-white">
+            📂 Drop a scenario JSON file to load it
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
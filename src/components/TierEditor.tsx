@@ -0,0 +1,195 @@
+'use client';
+
+import { GameTypeDefinition } from '@/lib/gameTypes';
+import { PlayerProfiles } from '@/lib/profiles';
+import {
+  CutoffUnit,
+  cutoffUnitLabels,
+  defaultTiers,
+  Placement,
+  PlacementReward,
+  PlacementTier,
+  RewardScaling,
+  rewardScalingLabels,
+  validateTiers,
+  withoutTier,
+} from '@/lib/tiers';
+
+interface TierEditorProps {
+  tiers: PlacementTier[];
+  profiles: PlayerProfiles;
+  gameTypes: GameTypeDefinition[];
+  onChange: (tiers: PlacementTier[], profiles: PlayerProfiles, gameTypes: GameTypeDefinition[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white';
+const iconButtonClassName = 'px-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-30 transition-colors';
+
+export default function TierEditor({ tiers, profiles, gameTypes, onChange }: TierEditorProps) {
+  const errors = validateTiers(tiers);
+
+  const updateTier = (id: Placement, changes: Partial<PlacementTier>) => {
+    onChange(tiers.map((tier) => tier.id === id ? { ...tier, ...changes } : tier), profiles, gameTypes);
+  };
+
+  const updateReward = (tier: PlacementTier, changes: Partial<PlacementReward>) => {
+    updateTier(tier.id, { reward: { ...tier.reward, ...changes } });
+  };
+
+  const moveTier = (index: number, offset: number) => {
+    const reordered = [...tiers];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered, profiles, gameTypes);
+  };
+
+  // New tiers rank just above the catch-all tier and start with no probability in any profile
+  const addTier = () => {
+    const tier: PlacementTier = {
+      id: `tier-${Date.now().toString(36)}`,
+      name: 'New Tier',
+      icon: '🏅',
+      color: '#3b82f6',
+      reward: { points: 1, scaling: 'perDay', multiplier: 1 },
+      cutoff: { unit: 'percent', value: 50 }
+    };
+    onChange([...tiers.slice(0, -1), tier, ...tiers.slice(-1)], profiles, gameTypes);
+  };
+
+  // Removed tiers hand their probability to the catch-all tier so every profile still sums to 100%
+  const replaceTiers = (remaining: PlacementTier[]) => {
+    const remainingIds = remaining.map((tier) => tier.id);
+    const removedIds = tiers.map((tier) => tier.id).filter((id) => !remainingIds.includes(id));
+    const updatedProfiles: PlayerProfiles = {};
+    Object.entries(profiles).forEach(([id, profile]) => {
+      updatedProfiles[id] = {
+        ...profile,
+        distribution: removedIds.reduce((distribution, removed) => withoutTier(distribution, removed, remaining), profile.distribution)
+      };
+    });
+    const updatedGameTypes = gameTypes.map((type) => ({
+      ...type,
+      rewards: Object.fromEntries(Object.entries(type.rewards).filter(([tier]) => remainingIds.includes(tier)))
+    }));
+    onChange(remaining, updatedProfiles, updatedGameTypes);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Tiers are ranked best first. The last tier catches every game that doesn&apos;t land in a higher one.
+      </p>
+      {tiers.map((tier, index) => (
+        <div key={tier.id} className="p-2 border border-gray-200 dark:border-gray-600 rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={tier.icon}
+              onChange={(e) => updateTier(tier.id, { icon: e.target.value })}
+              className={`${inputClassName} w-12 text-center`}
+              aria-label="Tier icon"
+            />
+            <input
+              value={tier.name}
+              onChange={(e) => updateTier(tier.id, { name: e.target.value })}
+              className={inputClassName}
+              aria-label="Tier name"
+            />
+            <input
+              type="color"
+              value={tier.color}
+              onChange={(e) => updateTier(tier.id, { color: e.target.value })}
+              className="w-8 h-8 shrink-0 rounded cursor-pointer bg-transparent"
+              title="Chart marker color"
+            />
+            <button onClick={() => moveTier(index, -1)} disabled={index === 0} className={iconButtonClassName} title="Rank higher">▲</button>
+            <button onClick={() => moveTier(index, 1)} disabled={index === tiers.length - 1} className={iconButtonClassName} title="Rank lower">▼</button>
+            <button
+              onClick={() => replaceTiers(tiers.filter((t) => t.id !== tier.id))}
+              disabled={tiers.length <= 1}
+              className={`${iconButtonClassName} hover:text-red-600`}
+              title="Remove tier"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="number"
+              min="0"
+              value={tier.reward.points}
+              onChange={(e) => updateReward(tier, { points: Number(e.target.value) })}
+              className={inputClassName}
+              aria-label="Default points"
+              title="Default points, used by game types without their own reward for this tier"
+            />
+            <select
+              value={tier.reward.scaling}
+              onChange={(e) => updateReward(tier, { scaling: e.target.value as RewardScaling })}
+              className={inputClassName}
+              aria-label="Default scaling rule"
+            >
+              {Object.entries(rewardScalingLabels).map(([scaling, label]) => (
+                <option key={scaling} value={scaling}>{label}</option>
+              ))}
+            </select>
+            {tier.reward.scaling === 'multiplier' && (
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={tier.reward.multiplier}
+                onChange={(e) => updateReward(tier, { multiplier: Number(e.target.value) })}
+                className={inputClassName}
+                aria-label="Default multiplier"
+              />
+            )}
+          </div>
+          {index < tiers.length - 1 && (
+            <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+              <span className="shrink-0">Rating model: top</span>
+              <input
+                type="number"
+                min="1"
+                value={tier.cutoff.value}
+                onChange={(e) => updateTier(tier.id, { cutoff: { ...tier.cutoff, value: Number(e.target.value) } })}
+                className={inputClassName}
+                aria-label="Cutoff"
+              />
+              <select
+                value={tier.cutoff.unit}
+                onChange={(e) => updateTier(tier.id, { cutoff: { ...tier.cutoff, unit: e.target.value as CutoffUnit } })}
+                className={inputClassName}
+                aria-label="Cutoff unit"
+              >
+                {Object.entries(cutoffUnitLabels).map(([unit, label]) => (
+                  <option key={unit} value={unit}>{label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={addTier}
+          className="px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
+        >
+          + Add Tier
+        </button>
+        <button
+          onClick={() => replaceTiers(defaultTiers)}
+          className="px-3 py-1 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded text-sm transition-colors"
+          title="Restore 1st, 2nd, 3rd and participation"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { PlayerProfile, PlayerProfiles } from '@/lib/profiles';
+import { SimulationResult } from '@/lib/simulation';
+import { daysToLevels, LevelTarget, TargetStatus, targetStatus, validateLevelTarget } from '@/lib/timeToLevel';
+
+interface TimeToLevelMatrixProps {
+  profiles: PlayerProfiles;
+  simulations: Record<PlayerProfile, SimulationResult>;
+  targets: LevelTarget[];
+  onChange: (targets: LevelTarget[]) => void;
+}
+
+const inputClassName = 'w-full px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded text-xs text-right dark:bg-gray-700 dark:text-white';
+
+const STATUS_CLASSES: Record<TargetStatus, string> = {
+  none: 'text-gray-900 dark:text-white',
+  early: 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200',
+  onTarget: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200',
+  late: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200',
+};
+
+const STATUS_LABELS: Record<Exclude<TargetStatus, 'none'>, string> = {
+  early: 'Earlier than the window',
+  onTarget: 'Within the window',
+  late: 'Later than the window, or never',
+};
+
+// Empty inputs clear a bound
+const parseDay = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+export default function TimeToLevelMatrix({ profiles, simulations, targets, onChange }: TimeToLevelMatrixProps) {
+  const errors = Array.from(new Set(targets.flatMap(validateLevelTarget)));
+  const profileEntries = Object.entries(profiles).filter(([id]) => simulations[id]);
+  const days = Object.fromEntries(profileEntries.map(([id]) => [id, daysToLevels(simulations[id].levels, targets)]));
+
+  const updateTarget = (index: number, changes: Partial<LevelTarget>) => {
+    onChange(targets.map((target, i) => i === index ? { ...target, ...changes } : target));
+  };
+
+  return (
+    <div className="text-left">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100 dark:bg-gray-700">
+            <tr>
+              <th className="text-left px-2 py-2 font-semibold text-gray-900 dark:text-white">Level</th>
+              <th className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white text-xs" title="Target window, in season days">Target Days</th>
+              {profileEntries.map(([id, profile]) => (
+                <th key={id} className="text-right px-2 py-2 font-semibold text-gray-900 dark:text-white text-xs" title={profile.name}>
+                  {profile.icon} {profile.name}
+                </th>
+              ))}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {targets.map((target, index) => (
+              <tr key={index} className="border-b border-gray-100 dark:border-gray-700">
+                <td className="px-2 py-1 w-20">
+                  <input
+                    type="number"
+                    min="1"
+                    value={target.level}
+                    onChange={(e) => updateTarget(index, { level: Number(e.target.value) })}
+                    className={inputClassName}
+                    aria-label="Level"
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <div className="flex items-center gap-1 justify-end">
+                    <input
+                      type="number"
+                      min="1"
+                      value={target.earliest ?? ''}
+                      onChange={(e) => updateTarget(index, { earliest: parseDay(e.target.value) })}
+                      className={`${inputClassName} w-14`}
+                      placeholder="—"
+                      aria-label="Earliest day"
+                    />
+                    <span className="text-gray-400">–</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={target.latest ?? ''}
+                      onChange={(e) => updateTarget(index, { latest: parseDay(e.target.value) })}
+                      className={`${inputClassName} w-14`}
+                      placeholder="—"
+                      aria-label="Latest day"
+                    />
+                  </div>
+                </td>
+                {profileEntries.map(([id]) => {
+                  const day = days[id][index];
+                  return (
+                    <td
+                      key={id}
+                      className={`px-2 py-1 text-right font-mono text-xs ${STATUS_CLASSES[targetStatus(day, target)]}`}
+                      title={day === null ? 'Never reached within the season' : undefined}
+                    >
+                      {day === null ? 'Never' : `Day ${day}`}
+                    </td>
+                  );
+                })}
+                <td className="px-1">
+                  <button
+                    onClick={() => onChange(targets.filter((_, i) => i !== index))}
+                    className="text-gray-500 hover:text-red-600 dark:text-gray-400 transition-colors"
+                    title="Remove level"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-2 text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-4">
+        <button
+          onClick={() => onChange([...targets, { level: (targets[targets.length - 1]?.level ?? 0) + 10, earliest: null, latest: null }])}
+          className="px-3 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
+        >
+          + Add Level
+        </button>
+        {Object.entries(STATUS_LABELS).map(([status, label]) => (
+          <span key={status} className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+            <span className={`inline-block w-3 h-3 rounded-sm ${STATUS_CLASSES[status as TargetStatus]}`}></span>
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
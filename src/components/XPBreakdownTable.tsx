@@ -0,0 +1,71 @@
+'use client';
+
+import { GameTypeDefinition } from '@/lib/gameTypes';
+import { XPBreakdown } from '@/lib/simulation';
+import { PlacementTier } from '@/lib/tiers';
+
+interface XPBreakdownTableProps {
+  gameTypes: GameTypeDefinition[];
+  tiers: PlacementTier[];
+  breakdown: XPBreakdown;
+}
+
+export default function XPBreakdownTable({ gameTypes, tiers, breakdown }: XPBreakdownTableProps) {
+  const rows = gameTypes
+    .filter((type) => breakdown[type.id])
+    .map((type) => {
+      const byPlacement = breakdown[type.id];
+      return {
+        type,
+        byPlacement,
+        total: tiers.reduce((sum, tier) => sum + (byPlacement[tier.id]?.xp ?? 0), 0)
+      };
+    });
+  const grandTotal = rows.reduce((sum, row) => sum + row.total, 0);
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-600">
+      <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+        XP by Game Type
+      </h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-600 dark:text-gray-400">
+              <th className="text-left py-1 font-medium">Type</th>
+              {tiers.map((tier) => (
+                <th key={tier.id} className="text-right py-1 font-medium" title={tier.name}>{tier.icon}</th>
+              ))}
+              <th className="text-right py-1 font-medium">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ type, byPlacement, total }) => (
+              <tr key={type.id} className="border-t border-gray-100 dark:border-gray-700">
+                <td className="py-1 text-gray-900 dark:text-white">{type.name}</td>
+                {tiers.map((tier) => (
+                  <td
+                    key={tier.id}
+                    className="py-1 text-right font-mono text-gray-600 dark:text-gray-400"
+                    title={`${(byPlacement[tier.id]?.games ?? 0).toLocaleString()} games`}
+                  >
+                    {(byPlacement[tier.id]?.xp ?? 0).toLocaleString()}
+                  </td>
+                ))}
+                <td className="py-1 text-right font-mono font-semibold text-gray-900 dark:text-white">
+                  {total.toLocaleString()}
+                  <span className="ml-1 font-normal text-gray-500">
+                    ({grandTotal > 0 ? Math.round((total / grandTotal) * 100) : 0}%)
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-2 text-xs text-gray-500 dark:text-gray-500">
+        * Hover a cell for the number of games behind it
+      </div>
+    </div>
+  );
+}
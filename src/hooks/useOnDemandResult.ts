@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * A result that is only computed on request, such as a long simulation run,
+ * and whether the inputs it came from have changed since. Inputs are
+ * compared by reference, position by position. A failed run keeps the
+ * previous result and reports its message in `error`.
+ */
+export const useOnDemandResult = <T>(inputs: unknown[]) => {
+  const [result, setResult] = useState<T | null>(null);
+  const [resultInputs, setResultInputs] = useState<unknown[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isStale = result !== null && inputs.some((input, i) => input !== resultInputs[i]);
+
+  // Yield to the browser first so the caller can show its running state during a long run
+  const run = async (compute: () => T | Promise<T>) => {
+    const runInputs = inputs;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const computed = await compute();
+      setResult(computed);
+      setResultInputs(runInputs);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const clear = useCallback(() => setResult(null), []);
+
+  return { result, isStale, isRunning, error, run, clear };
+};
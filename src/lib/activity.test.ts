@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityCurveError, parseActivityCSV } from './activity';
+
+describe('parseActivityCSV', () => {
+  it('scales one value per line to an average of 1', () => {
+    expect(parseActivityCSV('50\n100\n150')).toEqual([0.5, 1, 1.5]);
+  });
+
+  it('reads day,value rows under a header and repeats values for missing days', () => {
+    expect(parseActivityCSV('day,dau\n1,100\n3,200\n')).toEqual([0.75, 0.75, 1.5]);
+  });
+
+  it('rejects rows that are not numeric', () => {
+    expect(() => parseActivityCSV('day,dau\n1,100\n2,n/a')).toThrow(/Line 3 is not numeric/);
+  });
+
+  it('rejects negative values and days out of order', () => {
+    expect(() => parseActivityCSV('10\n-1')).toThrow(/Line 2 has a negative value/);
+    expect(() => parseActivityCSV('2,10\n1,10')).toThrow(/increasing order/);
+  });
+
+  it('rejects empty files and all-zero curves', () => {
+    expect(() => parseActivityCSV('')).toThrow(ActivityCurveError);
+    expect(() => parseActivityCSV('dau\n')).toThrow(/no data rows/);
+    expect(() => parseActivityCSV('0\n0')).toThrow(/zero/);
+  });
+});
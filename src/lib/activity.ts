@@ -0,0 +1,73 @@
+import { CalendarDay } from './calendar';
+import { readNumberRows } from './csv';
+
+export interface ActivityModel {
+  seasonality: number[]; // game volume multiplier per calendar month (0 = January)
+  weekdayParticipation: number[]; // share of day-cadence games played on each weekday (0 = Sunday)
+  dailyCurve: number[] | null; // imported per-day activity, repeated if shorter than the season; replaces the built-in wave
+}
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Quieter summers (Jun–Aug) and busier winters (Nov–Feb); players play 5 days out of 7
+export const defaultActivity: ActivityModel = {
+  seasonality: [1.2, 1.2, 1, 1, 1, 0.8, 0.8, 0.8, 1, 1, 1.2, 1.2],
+  weekdayParticipation: Array(7).fill(5 / 7),
+  dailyCurve: null
+};
+
+// Built-in day-to-day wave used when no activity curve has been imported
+export const getDailyVariation = (day: number): number => {
+  return 0.85 + (Math.sin(day * 0.1) * 0.15);
+};
+
+// Multiplier on day- and week-cadence game volume for one day of the season
+export const activityMultiplier = (activity: ActivityModel, { day, month }: CalendarDay): number => {
+  const variation = activity.dailyCurve ? activity.dailyCurve[(day - 1) % activity.dailyCurve.length] : getDailyVariation(day);
+  return activity.seasonality[month] * variation;
+};
+
+// Relative daily game volume per day, as drawn behind the progress chart
+export const activitySeries = (activity: ActivityModel, calendar: CalendarDay[]): number[] => {
+  return calendar.map((day) => activity.weekdayParticipation[day.weekday] * activityMultiplier(activity, day));
+};
+
+export class ActivityCurveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActivityCurveError';
+  }
+}
+
+/**
+ * Reads an activity curve (e.g. a DAU export) from CSV. Accepts one value per
+ * line, or `day,value` rows; a header row is skipped and days missing from
+ * `day,value` data repeat the previous value. Values are scaled so their
+ * average is 1, so only the shape of the curve matters.
+ */
+export const parseActivityCSV = (text: string): number[] => {
+  const rows = readNumberRows(text);
+  if (rows.length === 0) throw new ActivityCurveError('The file has no data rows');
+
+  const values: number[] = [];
+  rows.forEach(({ text: row, line, cells }) => {
+    if (cells.some((cell) => !Number.isFinite(cell))) throw new ActivityCurveError(`Line ${line} is not numeric: "${row}"`);
+    const value = cells[cells.length - 1];
+    if (value < 0) throw new ActivityCurveError(`Line ${line} has a negative value`);
+
+    if (cells.length === 1) {
+      values.push(value);
+      return;
+    }
+    const day = cells[0];
+    if (!Number.isInteger(day) || day < values.length + 1) {
+      throw new ActivityCurveError(`Line ${line}: days must be whole numbers in increasing order`);
+    }
+    while (values.length < day - 1) values.push(values[values.length - 1] ?? value);
+    values.push(value);
+  });
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (mean === 0) throw new ActivityCurveError('Every value in the curve is zero');
+  return values.map((value) => Math.round((value / mean) * 10000) / 10000);
+};
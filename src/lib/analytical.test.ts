@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { expectedLevels, expectedXP, fractionalLevel } from './analytical';
+import { formatISODate } from './calendar';
+import { curveFamilies } from './curves';
+import { createLevelScale } from './levels';
+import { simulateYear } from './simulation';
+import { defaultConfig } from './testConfig';
+
+const config = defaultConfig('average', 'expected');
+
+const last = (values: number[]) => values[values.length - 1];
+
+describe('expectedXP', () => {
+  it('matches an expected-value run of the season', () => {
+    const { calendar, mean } = expectedXP(config);
+    const year = simulateYear(config);
+    expect(calendar).toHaveLength(year.calendar.length);
+    mean.forEach((xp, day) => expect(xp).toBeCloseTo(year.cumulativeXP[day], 9));
+  });
+
+  it('adds up the daily variances', () => {
+    const { stdDev } = expectedXP(config);
+    const variance = simulateYear(config).dailyVariance.reduce((sum, value) => sum + value, 0);
+    expect(last(stdDev)).toBeCloseTo(Math.sqrt(variance), 9);
+    stdDev.slice(1).forEach((spread, day) => expect(spread).toBeGreaterThanOrEqual(stdDev[day]));
+  });
+
+  it('runs later seasons on from the same date a year later', () => {
+    const { calendar, mean } = expectedXP(config, 2);
+    const first = simulateYear(config);
+    const second = simulateYear({ ...config, calendar: { ...config.calendar, startDate: '2025-01-01' } });
+    expect(calendar).toHaveLength(366 + 365);
+    expect(calendar.map((day) => day.day)).toEqual(Array.from({ length: 366 + 365 }, (_, i) => i + 1));
+    expect(formatISODate(calendar[366].date)).toBe('2025-01-01');
+    expect(last(mean)).toBeCloseTo(last(first.cumulativeXP) + last(second.cumulativeXP), 9);
+  });
+
+  it('agrees with the mean and spread of rolled seasons', () => {
+    const runs = 300;
+    const finals = Array.from({ length: runs }, (_, run) => last(simulateYear({ ...config, mode: 'stochastic', seed: run }).cumulativeXP));
+    const sampleMean = finals.reduce((sum, xp) => sum + xp, 0) / runs;
+    const sampleStdDev = Math.sqrt(finals.reduce((sum, xp) => sum + (xp - sampleMean) ** 2, 0) / (runs - 1));
+    const { mean, stdDev } = expectedXP(config);
+    expect(Math.abs(sampleMean - last(mean))).toBeLessThan((4 * last(stdDev)) / Math.sqrt(runs));
+    expect(sampleStdDev / last(stdDev)).toBeGreaterThan(0.8);
+    expect(sampleStdDev / last(stdDev)).toBeLessThan(1.2);
+  });
+});
+
+describe('fractionalLevel', () => {
+  const levelScale = createLevelScale(curveFamilies.quadratic.defaults);
+
+  it('counts completed levels plus progress through the next', () => {
+    const completed = levelScale.totalXPToLevel(5);
+    expect(fractionalLevel(levelScale, completed)).toBe(5);
+    expect(fractionalLevel(levelScale, completed + levelScale.xpForLevel(6) / 2)).toBeCloseTo(5.5, 12);
+  });
+
+  it('treats negative XP as none', () => {
+    expect(fractionalLevel(levelScale, -50)).toBe(0);
+  });
+});
+
+describe('expectedLevels', () => {
+  it('puts the mean level between the low and high bands', () => {
+    const levels = expectedLevels(expectedXP(config), createLevelScale(config.curve));
+    levels.mean.forEach((level, day) => {
+      expect(levels.low[day]).toBeLessThanOrEqual(level);
+      expect(level).toBeLessThanOrEqual(levels.high[day]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { CalendarDay, defaultCalendar, formatISODate, parseISODate } from './calendar';
+import { LevelScale } from './levels';
+import { simulateYear, SimulationConfig } from './simulation';
+
+// Seasons the analytical band can run ahead, starting from the configured season
+export const horizonOptions = [1, 2, 3, 5, 10];
+
+export interface ExpectedXP {
+  calendar: CalendarDay[]; // every day of the horizon, numbered on from the first season
+  mean: number[]; // expected cumulative XP by day
+  stdDev: number[]; // standard deviation of cumulative XP by day
+}
+
+// Levels at the expected XP and one standard deviation either side
+export interface ExpectedLevels {
+  mean: number[];
+  low: number[];
+  high: number[];
+}
+
+/**
+ * Expected cumulative XP and its spread, in closed form: one expected-value
+ * pass per season, with each day's variance added up as if days were
+ * independent. Later seasons repeat the schedule from the same date a year
+ * on; dated live-ops events only fall in the season they're dated in. XP
+ * doesn't depend on the curve, so this only needs redoing when the schedule,
+ * activity, odds or bonuses change.
+ *
+ * Streak, first-win and login bonuses move with the games played and how
+ * they place, which the variance leaves out, so with those on the spread is
+ * a lower bound.
+ */
+export const expectedXP = (config: SimulationConfig, seasons = 1, levelScale?: LevelScale): ExpectedXP => {
+  const start = parseISODate(config.calendar.startDate) ?? parseISODate(defaultCalendar.startDate)!;
+  const calendar: CalendarDay[] = [];
+  const mean: number[] = [];
+  const stdDev: number[] = [];
+  let seasonStartXP = 0;
+  let variance = 0;
+
+  for (let season = 0; season < seasons; season++) {
+    const startDate = formatISODate(new Date(start.getFullYear() + season, start.getMonth(), start.getDate()));
+    const result = simulateYear({ ...config, mode: 'expected', calendar: { ...config.calendar, startDate } }, levelScale);
+    result.calendar.forEach((calendarDay, i) => {
+      calendar.push({ ...calendarDay, day: calendar.length + 1 });
+      mean.push(seasonStartXP + result.cumulativeXP[i]);
+      variance += result.dailyVariance[i];
+      stdDev.push(Math.sqrt(variance));
+    });
+    seasonStartXP = mean[mean.length - 1];
+  }
+
+  return { calendar, mean, stdDev };
+};
+
+// Inverse of the curve's total XP: completed levels plus progress through the next one
+export const fractionalLevel = (levelScale: LevelScale, totalXP: number): number => {
+  const { currentLevel, progressPercent } = levelScale.progress(Math.max(0, totalXP));
+  return currentLevel + progressPercent / 100;
+};
+
+// Cheap enough to redo on every curve edit, without waiting for the debounce
+export const expectedLevels = (xp: ExpectedXP, levelScale: LevelScale): ExpectedLevels => ({
+  mean: xp.mean.map((mean) => fractionalLevel(levelScale, mean)),
+  low: xp.mean.map((mean, day) => fractionalLevel(levelScale, mean - xp.stdDev[day])),
+  high: xp.mean.map((mean, day) => fractionalLevel(levelScale, mean + xp.stdDev[day]))
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, defaultCalendar, formatISODate, parseISODate } from './calendar';
+
+const season = (startDate: string, weeklyEndDay = 0) => buildCalendar({ startDate, weeklyEndDay });
+
+describe('parseISODate', () => {
+  it('reads dates as local calendar days', () => {
+    expect(formatISODate(parseISODate('2024-02-29')!)).toBe('2024-02-29');
+  });
+
+  it.each(['2023-02-29', '2024-13-01', '2024-1-5', ''])('rejects %j', (value) => {
+    expect(parseISODate(value)).toBeNull();
+  });
+});
+
+describe('buildCalendar', () => {
+  it.each([
+    ['2024-01-01', 366],
+    ['2025-01-01', 365],
+    ['2024-03-01', 365],
+    ['2023-03-01', 366]
+  ])('runs a season from %s for %i days', (startDate, length) => {
+    const days = season(startDate);
+    expect(days).toHaveLength(length);
+    expect(days.map((day) => day.day)).toEqual(Array.from({ length }, (_, i) => i + 1));
+  });
+
+  it('runs a season starting on February 29th up to February 28th', () => {
+    const days = season('2024-02-29');
+    expect(days).toHaveLength(366);
+    expect(formatISODate(days[0].date)).toBe('2024-02-29');
+    expect(formatISODate(days[days.length - 1].date)).toBe('2025-02-28');
+    expect(days[0].isMonthEnd).toBe(true);
+    expect(days[days.length - 1].isMonthEnd).toBe(true);
+  });
+
+  it('ends every calendar month once, including a leap February', () => {
+    const monthEnds = season('2024-01-01').filter((day) => day.isMonthEnd).map((day) => formatISODate(day.date));
+    expect(monthEnds).toHaveLength(12);
+    expect(monthEnds[1]).toBe('2024-02-29');
+    expect(monthEnds[11]).toBe('2024-12-31');
+  });
+
+  it('ends a season that starts mid-month on the day before its start date', () => {
+    const days = season('2024-07-15');
+    expect(formatISODate(days[days.length - 1].date)).toBe('2025-07-14');
+    expect(days.filter((day) => day.isMonthEnd)).toHaveLength(12);
+  });
+
+  it('completes weekly games on the chosen weekday', () => {
+    const weekEnds = season('2025-01-01', 5).filter((day) => day.isWeekEnd);
+    expect(weekEnds.every((day) => day.weekday === 5)).toBe(true);
+    expect(formatISODate(weekEnds[0].date)).toBe('2025-01-03');
+    expect(weekEnds.slice(1).every((day, i) => day.day - weekEnds[i].day === 7)).toBe(true);
+  });
+
+  it('falls back to the default start for an invalid date', () => {
+    expect(formatISODate(season('2025-02-30')[0].date)).toBe(defaultCalendar.startDate);
+  });
+});
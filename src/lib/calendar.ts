@@ -0,0 +1,70 @@
+export interface CalendarConfig {
+  startDate: string; // season start as YYYY-MM-DD
+  weeklyEndDay: number; // weekday weekly games complete on (0 = Sunday ... 6 = Saturday)
+}
+
+export interface CalendarDay {
+  day: number; // 1-based day of the season
+  date: Date;
+  month: number; // calendar month (0 = January)
+  weekday: number; // 0 = Sunday
+  isWeekEnd: boolean; // weekly games complete today
+  isMonthEnd: boolean; // last day of a calendar month; monthly games complete today
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// January 1st 2024 was a Sunday, so weekly games land on the same days as the old every-7th-day model
+export const defaultCalendar: CalendarConfig = {
+  startDate: '2024-01-01',
+  weeklyEndDay: 0
+};
+
+// Parse YYYY-MM-DD as a local calendar date (Date's own parser would treat it as UTC)
+export const parseISODate = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date : null; // Rejects e.g. 2023-02-30
+};
+
+// Calendar date as YYYY-MM-DD without timezone conversion
+export const formatISODate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+let cachedKey = '';
+let cachedDays: CalendarDay[] = [];
+
+/**
+ * Lays out one season (start date up to the same date a year later, so 365
+ * or 366 days) with the completion days for weekly and monthly games. The
+ * last result is cached since every Monte Carlo run asks for the same one.
+ */
+export const buildCalendar = (config: CalendarConfig): CalendarDay[] => {
+  const key = `${config.startDate}|${config.weeklyEndDay}`;
+  if (key === cachedKey) return cachedDays;
+
+  const start = parseISODate(config.startDate) ?? parseISODate(defaultCalendar.startDate)!;
+  const end = new Date(start.getFullYear() + 1, start.getMonth(), start.getDate());
+  const days: CalendarDay[] = [];
+
+  for (let date = start, day = 1; date < end; day++) {
+    const next = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    days.push({
+      day,
+      date,
+      month: date.getMonth(),
+      weekday: date.getDay(),
+      isWeekEnd: date.getDay() === config.weeklyEndDay,
+      isMonthEnd: next.getMonth() !== date.getMonth()
+    });
+    date = next;
+  }
+
+  cachedKey = key;
+  cachedDays = days;
+  return days;
+};
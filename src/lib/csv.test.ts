@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { readNumberRows } from './csv';
+
+describe('readNumberRows', () => {
+  it('skips a header row and blank lines', () => {
+    expect(readNumberRows('day,dau\r\n1,120\n\n2,80\n')).toEqual([
+      { line: 2, text: '1,120', cells: [1, 120] },
+      { line: 4, text: '2,80', cells: [2, 80] }
+    ]);
+  });
+
+  it('keeps the first row when every cell is numeric', () => {
+    expect(readNumberRows('5\n6').map((row) => row.cells)).toEqual([[5], [6]]);
+  });
+
+  it('reads cells that are not numbers as NaN after the header', () => {
+    expect(readNumberRows('day,dau\n1,lots')[0].cells).toEqual([1, NaN]);
+  });
+
+  it('returns no rows for an empty file or a header alone', () => {
+    expect(readNumberRows('')).toEqual([]);
+    expect(readNumberRows('  \n\n')).toEqual([]);
+    expect(readNumberRows('day,dau\n')).toEqual([]);
+  });
+});
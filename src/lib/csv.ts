@@ -0,0 +1,65 @@
+import { formatISODate } from './calendar';
+import { SimulationResult } from './simulation';
+
+type CsvCell = string | number;
+
+// Quote cells that contain separators, quotes or line breaks (RFC 4180)
+const escapeCell = (cell: CsvCell): string => {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export interface CsvNumberRow {
+  line: number; // 1-based line in the file, for error messages
+  text: string;
+  cells: number[]; // NaN where a cell isn't a number; empty cells read as 0
+}
+
+/**
+ * Rows of an imported numeric CSV file, skipping blank lines and a header
+ * row (a first row with any non-empty, non-numeric cell). Cells are split on
+ * commas without quoting, which is all the curve imports need.
+ */
+export const readNumberRows = (text: string): CsvNumberRow[] => {
+  const rows = text.split(/\r?\n/)
+    .map((line, i) => ({ text: line.trim(), line: i + 1 }))
+    .filter((row) => row.text !== '');
+  if (rows.length > 0 && rows[0].text.split(',').some((cell) => cell.trim() !== '' && !Number.isFinite(Number(cell)))) {
+    rows.shift();
+  }
+  return rows.map((row) => ({ ...row, cells: row.text.split(',').map((cell) => Number(cell.trim())) }));
+};
+
+export const toCSV = (header: string[], rows: CsvCell[][]): string => {
+  return [header, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// One row per simulated day
+export const timelineCSV = (result: SimulationResult): string => {
+  return toCSV(
+    ['day', 'date', 'daily_xp', 'cumulative_xp', 'level'],
+    result.cumulativeXP.map((cumulativeXP, i) => [
+      i + 1,
+      formatISODate(result.calendar[i].date),
+      result.dailyXP[i],
+      cumulativeXP,
+      result.levels[i]
+    ])
+  );
+};
+
+// One row per individually simulated game
+export const gameEventsCSV = (result: SimulationResult): string => {
+  return toCSV(
+    ['day', 'date', 'game_type', 'game_index', 'placement', 'points', 'live_ops_event'],
+    result.events.map((event) => [
+      event.day,
+      formatISODate(result.calendar[event.day - 1].date),
+      event.gameType,
+      event.gameIndex,
+      event.placement,
+      event.points,
+      event.liveOpsEvent ?? ''
+    ])
+  );
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCurve, analyzePacing, defaultPacingThresholds, flaggedLevels } from './curveHealth';
+import { curveFamilies, TableCurve } from './curves';
+
+const table = (values: number[]): TableCurve => ({ family: 'table', values });
+
+describe('analyzeCurve', () => {
+  it('reports nothing for a rising curve', () => {
+    expect(analyzeCurve(curveFamilies.quadratic.defaults)).toEqual([]);
+  });
+
+  it('groups clamped levels and levels cheaper than the one before into runs', () => {
+    const warnings = analyzeCurve(table([0.5, 0.5, 10, 20, 15, 12, 30]), 10);
+    expect(warnings.map(({ kind, levels }) => [kind, levels])).toEqual([
+      ['clamped', [1, 2]],
+      ['nonMonotonic', [5, 6]]
+    ]);
+  });
+
+  it('reports a single level on its own', () => {
+    const [warning] = analyzeCurve(table([10, 20, 15, 30]), 10);
+    expect(warning).toMatchObject({ kind: 'nonMonotonic', levels: [3, 3], message: 'Level 3 costs less XP than the level before' });
+  });
+
+  it('treats overflowing levels as clamped rather than as drops', () => {
+    const warnings = analyzeCurve(table([10, Infinity, Infinity, 20]), 5);
+    expect(warnings.map(({ kind, levels }) => [kind, levels])).toEqual([['clamped', [2, 3]]]);
+  });
+});
+
+describe('analyzePacing', () => {
+  const thresholds = { burstLevels: 5, deadZoneDays: 2 };
+
+  it('flags days with at least the burst threshold of levels', () => {
+    const [burst] = analyzePacing([2, 3, 9, 10], thresholds);
+    expect(burst).toMatchObject({ kind: 'burst', days: [2, 2], message: 'Day 3: 6 levels gained in one day' });
+  });
+
+  it('flags stretches longer than the dead zone threshold', () => {
+    const levels = [2, 2, 2, 2, 3, 3, 3, 4];
+    expect(analyzePacing(levels, thresholds)).toEqual([{
+      kind: 'deadZone',
+      days: [1, 3],
+      message: 'Days 2–4: 3 days without a level-up (stuck at level 2)'
+    }]);
+    expect(analyzePacing(levels, { ...thresholds, deadZoneDays: 3 })).toEqual([]);
+  });
+
+  it('finds nothing in steady progress at the default thresholds', () => {
+    expect(analyzePacing(Array.from({ length: 60 }, (_, day) => Math.floor(day / 3) + 1), defaultPacingThresholds)).toEqual([]);
+  });
+});
+
+describe('flaggedLevels', () => {
+  it('maps every level of a curve warning to its kind and skips pacing warnings', () => {
+    const flagged = flaggedLevels([
+      { kind: 'clamped', levels: [1, 2], message: '' },
+      { kind: 'burst', days: [4, 4], message: '' }
+    ]);
+    expect([...flagged]).toEqual([[1, 'clamped'], [2, 'clamped']]);
+  });
+});
@@ -0,0 +1,117 @@
+import { CurveDefinition, evaluateCurve } from './curves';
+
+// Levels checked for curve problems, matching the level list
+export const CURVE_CHECK_LEVELS = 500;
+
+export interface PacingThresholds {
+  burstLevels: number; // levels gained in one day that count as a burst
+  deadZoneDays: number; // days without a level-up that count as a dead zone
+}
+
+export const defaultPacingThresholds: PacingThresholds = { burstLevels: 5, deadZoneDays: 14 };
+
+export const validatePacingThresholds = (thresholds: PacingThresholds): string[] => {
+  const errors: string[] = [];
+  if (!Number.isInteger(thresholds.burstLevels) || thresholds.burstLevels < 2) errors.push('Burst threshold must be a whole number of levels from 2');
+  if (!Number.isInteger(thresholds.deadZoneDays) || thresholds.deadZoneDays < 1) errors.push('Dead zone threshold must be a whole number of days from 1');
+  return errors;
+};
+
+export type CurveWarningKind = 'clamped' | 'nonMonotonic' | 'burst' | 'deadZone';
+
+export interface CurveWarning {
+  kind: CurveWarningKind;
+  message: string;
+  levels?: [number, number]; // first and last level affected (curve warnings)
+  days?: [number, number]; // first and last season day index affected (pacing warnings)
+}
+
+export const curveWarningLabels: Record<CurveWarningKind, string> = {
+  clamped: 'Clamped levels',
+  nonMonotonic: 'Cheaper than the level before',
+  burst: 'Level bursts',
+  deadZone: 'Dead zones'
+};
+
+// Shared by the warnings panel swatches and the chart and level list highlights
+export const curveWarningColors: Record<CurveWarningKind, string> = {
+  clamped: 'rgb(239, 68, 68)',
+  nonMonotonic: 'rgb(249, 115, 22)',
+  burst: 'rgb(234, 179, 8)',
+  deadZone: 'rgb(107, 114, 128)'
+};
+
+// Consecutive runs of flagged items as [first, last] pairs
+const runs = (flags: boolean[], offset: number): [number, number][] => {
+  const found: [number, number][] = [];
+  flags.forEach((flag, i) => {
+    if (!flag) return;
+    const last = found[found.length - 1];
+    if (last && last[1] === i + offset - 1) last[1] = i + offset;
+    else found.push([i + offset, i + offset]);
+  });
+  return found;
+};
+
+/**
+ * Checks the curve itself: levels whose formula comes out below 1 XP (or
+ * overflows) and are clamped, and levels that cost less than the one before,
+ * so players skip through them faster than the levels they just cleared.
+ */
+export const analyzeCurve = (curve: CurveDefinition, maxLevel = CURVE_CHECK_LEVELS): CurveWarning[] => {
+  const raw = Array.from({ length: maxLevel }, (_, i) => evaluateCurve(curve, i + 1));
+  const priced = raw.map((xp) => Number.isFinite(xp) && xp >= 1);
+  const clamped = runs(priced.map((ok) => !ok), 1).map((levels): CurveWarning => ({
+    kind: 'clamped',
+    levels,
+    message: levels[0] === levels[1]
+      ? `Level ${levels[0]} is priced below 1 XP (or overflows) and is clamped`
+      : `Levels ${levels[0]}–${levels[1]} are priced below 1 XP (or overflow) and are clamped; a single game can skip them`
+  }));
+  // Clamped levels are already reported, so only drops between levels the formula prices normally count here
+  const drops = raw.map((xp, i) => i > 0 && priced[i] && priced[i - 1] && Math.floor(xp) < Math.floor(raw[i - 1]));
+  const nonMonotonic = runs(drops, 1).map((levels): CurveWarning => ({
+    kind: 'nonMonotonic',
+    levels,
+    message: levels[0] === levels[1]
+      ? `Level ${levels[0]} costs less XP than the level before`
+      : `Levels ${levels[0]}–${levels[1]} each cost less XP than the level before`
+  }));
+  return [...clamped, ...nonMonotonic];
+};
+
+/**
+ * Checks one player's daily level series: days with many levels gained at
+ * once and stretches longer than the threshold without a level-up.
+ */
+export const analyzePacing = (levels: number[], thresholds: PacingThresholds): CurveWarning[] => {
+  const warnings: CurveWarning[] = [];
+  levels.forEach((level, i) => {
+    const gained = level - (i > 0 ? levels[i - 1] : 0);
+    if (gained >= thresholds.burstLevels) {
+      warnings.push({ kind: 'burst', days: [i, i], message: `Day ${i + 1}: ${gained} levels gained in one day` });
+    }
+  });
+  const flat = levels.map((level, i) => i > 0 && level === levels[i - 1]);
+  runs(flat, 0).forEach(([from, to]) => {
+    // Each day in the run kept the level of the day before
+    const length = to - from + 1;
+    if (length <= thresholds.deadZoneDays) return;
+    warnings.push({
+      kind: 'deadZone',
+      days: [from, to],
+      message: `Days ${from + 1}–${to + 1}: ${length} days without a level-up (stuck at level ${levels[from]})`
+    });
+  });
+  return warnings;
+};
+
+// Kind of curve warning on each flagged level, for highlighting the level list
+export const flaggedLevels = (warnings: CurveWarning[]): Map<number, CurveWarningKind> => {
+  const flagged = new Map<number, CurveWarningKind>();
+  warnings.forEach(({ kind, levels }) => {
+    if (!levels) return;
+    for (let level = levels[0]; level <= levels[1]; level++) flagged.set(level, kind);
+  });
+  return flagged;
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCurve, PiecewiseCurve } from './curves';
+
+describe('evaluateCurve', () => {
+  it('picks the piecewise segment by level, whatever order the segments are in', () => {
+    const curve: PiecewiseCurve = {
+      family: 'piecewise',
+      segments: [
+        { fromLevel: 60, curve: { family: 'power', a: 1000, p: 0 } },
+        { fromLevel: 1, curve: { family: 'power', a: 1, p: 0 } }
+      ]
+    };
+    expect(evaluateCurve(curve, 10)).toBe(1);
+    expect(evaluateCurve(curve, 60)).toBe(1000);
+    expect(evaluateCurve({ ...curve, segments: [...curve.segments].reverse() }, 10)).toBe(1);
+  });
+
+  it('uses the lowest segment for levels before any segment starts', () => {
+    const curve: PiecewiseCurve = {
+      family: 'piecewise',
+      segments: [
+        { fromLevel: 20, curve: { family: 'power', a: 7, p: 0 } },
+        { fromLevel: 5, curve: { family: 'power', a: 3, p: 0 } }
+      ]
+    };
+    expect(evaluateCurve(curve, 1)).toBe(3);
+  });
+});
@@ -0,0 +1,284 @@
+export type CurveFamily = 'quadratic' | 'exponential' | 'power' | 'logistic' | 'piecewise' | 'table';
+
+export interface QuadraticCurve {
+  family: 'quadratic';
+  a: number; // x^2 coefficient
+  b: number; // x coefficient
+  c: number; // constant
+  multiplier: number; // final multiplier
+}
+
+export interface ExponentialCurve {
+  family: 'exponential';
+  base: number;
+  growth: number; // per-level growth factor
+}
+
+export interface PowerCurve {
+  family: 'power';
+  a: number;
+  p: number; // exponent
+}
+
+export interface LogisticCurve {
+  family: 'logistic';
+  cap: number; // XP per level approaches this value
+  steepness: number;
+  midpoint: number; // level at which XP per level is half the cap
+}
+
+// Formulas that can be used on their own or as a piecewise segment
+export type SimpleCurve = QuadraticCurve | ExponentialCurve | PowerCurve | LogisticCurve;
+
+export interface PiecewiseSegment {
+  fromLevel: number; // segment applies from this level until the next segment starts
+  curve: SimpleCurve;
+}
+
+export interface PiecewiseCurve {
+  family: 'piecewise';
+  segments: PiecewiseSegment[];
+}
+
+export interface TableCurve {
+  family: 'table';
+  values: number[]; // XP for levels 1..n; the last value repeats beyond the table
+}
+
+export type CurveDefinition = SimpleCurve | PiecewiseCurve | TableCurve;
+
+export interface CurveParam {
+  key: string;
+  label: string;
+  step?: string;
+  solverFixed?: boolean; // held at its current value by the pacing solver
+}
+
+export interface CurveFamilyInfo {
+  name: string;
+  description: string;
+  params: CurveParam[]; // numeric coefficients edited directly; empty for piecewise and table
+  defaults: CurveDefinition;
+}
+
+export const curveFamilies: Record<CurveFamily, CurveFamilyInfo> = {
+  quadratic: {
+    name: 'Quadratic',
+    description: 'Polynomial (ax² + bx + c) × multiplier',
+    params: [
+      { key: 'a', label: '📈 A (x² coefficient)' },
+      { key: 'b', label: '📊 B (x coefficient)' },
+      { key: 'c', label: '📋 C (constant)' },
+      { key: 'multiplier', label: '✖️ Multiplier', step: '0.01', solverFixed: true }
+    ],
+    defaults: { family: 'quadratic', a: 0.035, b: 2.5, c: 10, multiplier: 0.5 }
+  },
+  exponential: {
+    name: 'Exponential',
+    description: 'Each level costs a fixed factor more than the last',
+    params: [
+      { key: 'base', label: '🔢 Base XP' },
+      { key: 'growth', label: '📈 Growth per level', step: '0.001' }
+    ],
+    defaults: { family: 'exponential', base: 10, growth: 1.01 }
+  },
+  power: {
+    name: 'Power Law',
+    description: 'XP grows as a power of the level',
+    params: [
+      { key: 'a', label: '✖️ Scale (a)' },
+      { key: 'p', label: '📈 Exponent (p)', step: '0.01' }
+    ],
+    defaults: { family: 'power', a: 5, p: 1.2 }
+  },
+  logistic: {
+    name: 'Soft Cap',
+    description: 'Logistic curve that levels off at a cap',
+    params: [
+      { key: 'cap', label: '🧢 Cap (max XP/level)' },
+      { key: 'steepness', label: '📈 Steepness (k)', step: '0.001' },
+      { key: 'midpoint', label: '🎯 Midpoint level' }
+    ],
+    defaults: { family: 'logistic', cap: 200, steepness: 0.05, midpoint: 50 }
+  },
+  piecewise: {
+    name: 'Piecewise',
+    description: 'Different formulas for different level ranges',
+    params: [],
+    defaults: {
+      family: 'piecewise',
+      segments: [
+        { fromLevel: 1, curve: { family: 'power', a: 10, p: 1 } },
+        { fromLevel: 50, curve: { family: 'quadratic', a: 0.05, b: 0, c: 375, multiplier: 1 } }
+      ]
+    }
+  },
+  table: {
+    name: 'Lookup Table',
+    description: 'Explicit XP for each level',
+    params: [],
+    defaults: { family: 'table', values: [10, 15, 20, 30, 40, 55, 70, 90, 110, 135] }
+  }
+};
+
+export const simpleCurveFamilies: SimpleCurve['family'][] = ['quadratic', 'exponential', 'power', 'logistic'];
+
+export const getCurveParam = (curve: CurveDefinition, key: string): number => {
+  return (curve as unknown as Record<string, number>)[key];
+};
+
+export const setCurveParam = <T extends CurveDefinition>(curve: T, key: string, value: number): T => {
+  return { ...curve, [key]: value };
+};
+
+const evaluateSimpleCurve = (curve: SimpleCurve, level: number): number => {
+  switch (curve.family) {
+    case 'quadratic':
+      // Polynomial approach: XP = (ax^2 + bx + c) × multiplier
+      // Example: (65x^2 - 165x - 6750) × 0.82
+      return ((curve.a * Math.pow(level, 2)) + (curve.b * level) + curve.c) * curve.multiplier;
+    case 'exponential':
+      return curve.base * Math.pow(curve.growth, level);
+    case 'power':
+      return curve.a * Math.pow(level, curve.p);
+    case 'logistic':
+      return curve.cap / (1 + Math.exp(-curve.steepness * (level - curve.midpoint)));
+  }
+};
+
+// Raw (unclamped) XP required to complete a level
+export const evaluateCurve = (curve: CurveDefinition, level: number): number => {
+  switch (curve.family) {
+    case 'piecewise': {
+      if (curve.segments.length === 0) return 0;
+      // Segments may be in any order; levels before the lowest segment use its formula
+      const segments = [...curve.segments].sort((a, b) => a.fromLevel - b.fromLevel);
+      const active = segments.filter((segment) => segment.fromLevel <= level).pop() ?? segments[0];
+      return evaluateSimpleCurve(active.curve, level);
+    }
+    case 'table':
+      if (curve.values.length === 0) return 0;
+      return curve.values[Math.min(level, curve.values.length) - 1];
+    default:
+      return evaluateSimpleCurve(curve, level);
+  }
+};
+
+const simpleCurveLatex = (curve: SimpleCurve): string => {
+  switch (curve.family) {
+    case 'quadratic':
+      return `(${curve.a}x^2 + ${curve.b}x + ${curve.c}) \\times ${curve.multiplier}`;
+    case 'exponential':
+      return `${curve.base} \\cdot ${curve.growth}^{x}`;
+    case 'power':
+      return `${curve.a} \\cdot x^{${curve.p}}`;
+    case 'logistic':
+      return `\\frac{${curve.cap}}{1 + e^{-${curve.steepness}(x - ${curve.midpoint})}}`;
+  }
+};
+
+// KaTeX source for the formula display
+export const curveLatex = (curve: CurveDefinition): string => {
+  switch (curve.family) {
+    case 'piecewise': {
+      const segments = [...curve.segments].sort((a, b) => a.fromLevel - b.fromLevel);
+      const rows = segments.map((segment, i) => {
+        const next = segments[i + 1];
+        const range = next ? `${segment.fromLevel} \\le x < ${next.fromLevel}` : `x \\ge ${segment.fromLevel}`;
+        return `${simpleCurveLatex(segment.curve)} & ${range}`;
+      });
+      return `\\text{XP}_{\\text{level}} = \\begin{cases} ${rows.join(' \\\\ ')} \\end{cases}`;
+    }
+    case 'table':
+      return `\\text{XP}_{\\text{level}} = T[\\min(x, ${curve.values.length})]`;
+    default:
+      return `\\text{XP}_{\\text{level}} = ${simpleCurveLatex(curve)}`;
+  }
+};
+
+const simpleCurveText = (curve: SimpleCurve): string => {
+  switch (curve.family) {
+    case 'quadratic':
+      return `(${curve.a}x² + ${curve.b}x + ${curve.c}) × ${curve.multiplier}`;
+    case 'exponential':
+      return `${curve.base} × ${curve.growth}^x`;
+    case 'power':
+      return `${curve.a} × x^${curve.p}`;
+    case 'logistic':
+      return `${curve.cap} / (1 + e^(-${curve.steepness}(x - ${curve.midpoint})))`;
+  }
+};
+
+// Plain-text formula for compact labels
+export const curveText = (curve: CurveDefinition): string => {
+  switch (curve.family) {
+    case 'piecewise':
+      return [...curve.segments]
+        .sort((a, b) => a.fromLevel - b.fromLevel)
+        .map((segment) => `L${segment.fromLevel}+: ${simpleCurveText(segment.curve)}`)
+        .join('; ');
+    case 'table':
+      return `Lookup table (${curve.values.length} levels)`;
+    default:
+      return simpleCurveText(curve);
+  }
+};
+
+export interface CurvePreset {
+  name: string;
+  color: string;
+  curve: CurveDefinition;
+}
+
+export const curvePresets: CurvePreset[] = [
+  {
+    name: 'Your Example (65x² - 165x - 6750) × 0.82',
+    color: 'bg-blue-500 hover:bg-blue-600',
+    curve: { family: 'quadratic', a: 65, b: -165, c: -6750, multiplier: 0.82 }
+  },
+  {
+    name: 'Linear Growth',
+    color: 'bg-green-500 hover:bg-green-600',
+    curve: { family: 'quadratic', a: 10, b: 50, c: 100, multiplier: 1.0 }
+  },
+  {
+    name: 'Pure Quadratic',
+    color: 'bg-purple-500 hover:bg-purple-600',
+    curve: { family: 'quadratic', a: 25, b: 0, c: 0, multiplier: 1.0 }
+  },
+  {
+    name: 'Flat Rate',
+    color: 'bg-orange-500 hover:bg-orange-600',
+    curve: { family: 'quadratic', a: 0, b: 100, c: 0, multiplier: 1.0 }
+  },
+  {
+    name: 'Level 500 = 10k XP',
+    color: 'bg-indigo-500 hover:bg-indigo-600',
+    curve: { family: 'quadratic', a: 0.035, b: 2.5, c: 10, multiplier: 0.5 }
+  },
+  {
+    name: 'Exponential 1%/level',
+    color: 'bg-red-500 hover:bg-red-600',
+    curve: curveFamilies.exponential.defaults
+  },
+  {
+    name: 'Power Law x^1.2',
+    color: 'bg-pink-500 hover:bg-pink-600',
+    curve: curveFamilies.power.defaults
+  },
+  {
+    name: 'Soft Cap at 200 XP',
+    color: 'bg-teal-500 hover:bg-teal-600',
+    curve: curveFamilies.logistic.defaults
+  },
+  {
+    name: 'Linear then Quadratic',
+    color: 'bg-cyan-500 hover:bg-cyan-600',
+    curve: curveFamilies.piecewise.defaults
+  },
+  {
+    name: 'Lookup Table (10 levels)',
+    color: 'bg-gray-500 hover:bg-gray-600',
+    curve: curveFamilies.table.defaults
+  }
+];
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { defaultGameTypes, gameRollKey, MAX_GAMES_PER_CYCLE, validateGameType } from './gameTypes';
+import { DEFAULT_SEED, keyedRandom } from './random';
+
+describe('gameRollKey', () => {
+  it('gives every game of the default types its own key', () => {
+    const keys = defaultGameTypes.flatMap((type) => Array.from({ length: 366 }, (_, i) =>
+      Array.from({ length: 10 }, (_, gameIndex) => gameRollKey(type, i + 1, gameIndex))
+    ).flat());
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('rolls daily and weekly games of the same cycle independently', () => {
+    const [daily, weekly] = defaultGameTypes;
+    const rolls = (type: typeof daily) => Array.from({ length: 52 }, (_, i) => keyedRandom(DEFAULT_SEED, gameRollKey(type, i + 1, 0)));
+    expect(rolls(weekly)).not.toEqual(rolls(daily));
+  });
+});
+
+describe('validateGameType', () => {
+  it('caps games per cycle at the room the roll keys leave', () => {
+    const [daily] = defaultGameTypes;
+    expect(validateGameType({ ...daily, gamesPerCycle: MAX_GAMES_PER_CYCLE })).toEqual([]);
+    expect(validateGameType({ ...daily, gamesPerCycle: MAX_GAMES_PER_CYCLE + 1 })).toHaveLength(1);
+  });
+
+  it('keeps the keys of the largest cycle apart from the next cycle', () => {
+    const [daily] = defaultGameTypes;
+    const lastOfCycle = gameRollKey(daily, 1, MAX_GAMES_PER_CYCLE);
+    expect(lastOfCycle).toBeLessThan(gameRollKey(daily, 2, 0));
+  });
+});
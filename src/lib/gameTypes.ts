@@ -0,0 +1,147 @@
+import { CalendarDay, WEEKDAY_NAMES } from './calendar';
+import { Placement, PlacementReward, PlacementTier } from './tiers';
+
+export type CadenceUnit = 'day' | 'week' | 'month';
+
+// How a game type's completions are drawn on the chart
+export type AnnotationStyle = 'none' | 'dashed' | 'dotted' | 'solid';
+
+// Per-tier rewards for one game type; tiers without an entry use the tier's default reward
+export type RewardTable = Record<Placement, PlacementReward>;
+
+export interface GameCadence {
+  unit: CadenceUnit; // days, weekly end days or calendar month ends
+  every: number; // completes on every Nth of those
+}
+
+export interface GameTypeDefinition {
+  id: string;
+  name: string;
+  durationDays: number; // per-day rewards are multiplied by this
+  cadence: GameCadence;
+  gamesPerCycle: number;
+  rewards: RewardTable;
+  participationRate: number; // share of the games a player takes part in (0–1)
+  lobbySize: number; // players per game, used by the skill-rating placement model
+  annotation: AnnotationStyle;
+  seedOffset: number; // unique per type, so each type's placement rolls are independent of the others'
+}
+
+export const DEFAULT_LOBBY_SIZE = 8;
+export const MAX_LOBBY_SIZE = 1000;
+
+// Roll keys leave room for 1000 games per cycle (and per live-ops event day), numbered from 0
+export const MAX_GAMES_PER_CYCLE = 999;
+
+// The original daily/weekly/monthly schedule
+export const defaultGameTypes: GameTypeDefinition[] = [
+  {
+    id: 'daily',
+    name: 'Daily Games',
+    durationDays: 1,
+    cadence: { unit: 'day', every: 1 },
+    gamesPerCycle: 2,
+    rewards: {},
+    participationRate: 1,
+    lobbySize: DEFAULT_LOBBY_SIZE,
+    annotation: 'none',
+    seedOffset: 0
+  },
+  {
+    id: 'weekly',
+    name: 'Weekly Games',
+    durationDays: 7,
+    cadence: { unit: 'week', every: 1 },
+    gamesPerCycle: 3,
+    rewards: {},
+    participationRate: 1,
+    lobbySize: DEFAULT_LOBBY_SIZE,
+    annotation: 'dashed',
+    seedOffset: 1
+  },
+  {
+    id: 'monthly',
+    name: 'Monthly Games',
+    durationDays: 30,
+    cadence: { unit: 'month', every: 1 },
+    gamesPerCycle: 1,
+    rewards: {},
+    participationRate: 1,
+    lobbySize: DEFAULT_LOBBY_SIZE,
+    annotation: 'solid',
+    seedOffset: 2
+  }
+];
+
+export const cadenceUnits: CadenceUnit[] = ['day', 'week', 'month'];
+
+export const annotationStyles: Record<AnnotationStyle, { label: string; borderDash?: number[]; borderWidth: number }> = {
+  none: { label: 'Hidden', borderWidth: 0 },
+  dashed: { label: 'Dashed', borderDash: [5, 5], borderWidth: 0.5 },
+  dotted: { label: 'Dotted', borderDash: [1, 3], borderWidth: 1 },
+  solid: { label: 'Solid', borderWidth: 1 }
+};
+
+export const validateGameType = (type: GameTypeDefinition): string[] => {
+  const errors: string[] = [];
+  if (type.name.trim() === '') errors.push('Name is required');
+  if (!(type.durationDays > 0)) errors.push('Duration must be more than 0 days');
+  if (!Number.isInteger(type.cadence.every) || type.cadence.every < 1) errors.push('Cadence must be a whole number of at least 1');
+  if (!(type.gamesPerCycle >= 0 && type.gamesPerCycle <= MAX_GAMES_PER_CYCLE)) {
+    errors.push(`Games per cycle must be from 0 to ${MAX_GAMES_PER_CYCLE}`);
+  }
+  if (!(type.participationRate >= 0 && type.participationRate <= 1)) errors.push('Participation must be between 0% and 100%');
+  if (!Number.isInteger(type.lobbySize) || type.lobbySize < 2 || type.lobbySize > MAX_LOBBY_SIZE) {
+    errors.push(`Lobby size must be a whole number from 2 to ${MAX_LOBBY_SIZE}`);
+  }
+  Object.entries(type.rewards).forEach(([tier, reward]) => {
+    if (!(reward.points >= 0)) errors.push(`The ${tier} reward must not be negative`);
+    if (reward.scaling === 'multiplier' && !(reward.multiplier >= 0)) errors.push(`The ${tier} multiplier must not be negative`);
+  });
+  return errors;
+};
+
+export const tierReward = (type: GameTypeDefinition, tier: PlacementTier): PlacementReward => type.rewards[tier.id] ?? tier.reward;
+
+// XP awarded for one game of this type finishing in the given tier
+export const rewardPoints = (type: GameTypeDefinition, tier: PlacementTier): number => {
+  const { points, scaling, multiplier } = tierReward(type, tier);
+  switch (scaling) {
+    case 'perDay': return points * type.durationDays;
+    case 'multiplier': return points * multiplier;
+    default: return points;
+  }
+};
+
+export const nextGameTypeSeedOffset = (types: GameTypeDefinition[]): number => {
+  return Math.max(0, ...types.map((type) => type.seedOffset)) + 1;
+};
+
+/**
+ * Cycle number (1-based) of the game type completing on each day of the
+ * season, or 0 on days it doesn't complete.
+ */
+export const completionCycles = (type: GameTypeDefinition, calendar: CalendarDay[]): number[] => {
+  let candidates = 0;
+  let cycle = 0;
+  return calendar.map((day) => {
+    const isCandidate = type.cadence.unit === 'day'
+      || (type.cadence.unit === 'week' && day.isWeekEnd)
+      || (type.cadence.unit === 'month' && day.isMonthEnd);
+    if (!isCandidate || ++candidates % type.cadence.every !== 0) return 0;
+    return ++cycle;
+  });
+};
+
+// Key for one rolled game's placement draw, unique per game type, cycle and game within a cycle
+export const gameRollKey = (type: GameTypeDefinition, cycle: number, gameIndex: number): number => {
+  return (type.seedOffset * 1000000) + (cycle * 1000) + gameIndex;
+};
+
+export const cadenceLabel = ({ unit, every }: GameCadence, weeklyEndDay: number): string => {
+  switch (unit) {
+    case 'day': return every === 1 ? 'every day' : `every ${every} days`;
+    case 'week': return every === 1 ? `every ${WEEKDAY_NAMES[weeklyEndDay]}` : `every ${every} weeks on ${WEEKDAY_NAMES[weeklyEndDay]}`;
+    default: return every === 1 ? 'at each month end' : `every ${every} months at month end`;
+  }
+};
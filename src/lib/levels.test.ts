@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { TableCurve } from './curves';
+import { createLevelScale } from './levels';
+
+// Levels 1–3 complete at 100, 300 and 600 XP; later levels repeat the last cost
+const table = (values: number[]): TableCurve => ({ family: 'table', values });
+const levelScale = createLevelScale(table([100, 200, 300]));
+
+describe('createLevelScale', () => {
+  it.each([
+    [0, 0],
+    [99, 0],
+    [100, 1],
+    [299, 1],
+    [300, 2],
+    [599, 2],
+    [600, 3]
+  ])('puts %i XP at level %i', (xp, level) => {
+    expect(levelScale.levelFromXP(xp)).toBe(level);
+  });
+
+  it('keeps charging the last table cost past the end of the table', () => {
+    expect(levelScale.levelFromXP(1199)).toBe(4);
+    expect(levelScale.levelFromXP(1200)).toBe(5);
+    expect(createLevelScale(table([100, 200, 300])).levelFromXP(30000)).toBe(101);
+  });
+
+  it('totals the XP to complete a level', () => {
+    expect(levelScale.totalXPToLevel(0)).toBe(0);
+    expect(levelScale.totalXPToLevel(-2)).toBe(0);
+    expect(levelScale.totalXPToLevel(3)).toBe(600);
+    expect(levelScale.totalXPToLevel(5)).toBe(1200);
+  });
+
+  it('agrees with levelFromXP at every threshold', () => {
+    for (let level = 1; level <= 20; level++) {
+      const threshold = levelScale.totalXPToLevel(level);
+      expect(levelScale.levelFromXP(threshold)).toBe(level);
+      expect(levelScale.levelFromXP(threshold - 1)).toBe(level - 1);
+    }
+  });
+
+  it('stops at the last level a curve can reach', () => {
+    const overflowing = createLevelScale(table([100, Infinity]));
+    expect(overflowing.levelFromXP(1e12)).toBe(1);
+    expect(overflowing.totalXPToLevel(2)).toBe(100 + Number.MAX_SAFE_INTEGER);
+  });
+
+  it('starts progress at zero on a threshold', () => {
+    expect(levelScale.progress(300)).toEqual({ currentLevel: 2, xpInLevel: 0, xpNeededForNext: 300, progressPercent: 0 });
+    expect(levelScale.progress(450).progressPercent).toBe(50);
+  });
+});
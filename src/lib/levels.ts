@@ -0,0 +1,80 @@
+import { CurveDefinition, evaluateCurve } from './curves';
+
+export interface LevelProgress {
+  currentLevel: number;
+  xpInLevel: number;
+  xpNeededForNext: number;
+  progressPercent: number;
+}
+
+export interface LevelScale {
+  xpForLevel: (level: number) => number;
+  totalXPToLevel: (targetLevel: number) => number;
+  levelFromXP: (totalXP: number) => number;
+  progress: (totalXP: number) => LevelProgress;
+}
+
+export const calculateXPForLevel = (curve: CurveDefinition, level: number): number => {
+  const result = evaluateCurve(curve, level);
+  if (!Number.isFinite(result)) return Number.MAX_SAFE_INTEGER; // Overflowing curves make the level unreachable
+  return Math.max(1, Math.floor(result)); // Ensure minimum of 1 XP per level
+};
+
+/**
+ * Builds the level lookups for a curve. Cumulative totals are cached and grown
+ * on demand, so repeated lookups over a whole year stay cheap.
+ */
+export const createLevelScale = (curve: CurveDefinition): LevelScale => {
+  // cumulative[n] = total XP needed to complete levels 1..n
+  const cumulative: number[] = [0];
+
+  const xpForLevel = (level: number) => calculateXPForLevel(curve, level);
+
+  const extendTo = (level: number) => {
+    while (cumulative.length <= level) {
+      const next = cumulative.length;
+      cumulative.push(cumulative[next - 1] + xpForLevel(next));
+    }
+  };
+
+  const totalXPToLevel = (targetLevel: number): number => {
+    if (targetLevel <= 0) return 0;
+    extendTo(targetLevel);
+    return cumulative[targetLevel];
+  };
+
+  const levelFromXP = (totalXP: number): number => {
+    // Grow the table until it covers totalXP, then binary search the completed level
+    while (cumulative[cumulative.length - 1] <= totalXP) {
+      extendTo(cumulative.length);
+    }
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (cumulative[mid] <= totalXP) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low; // Return the completed level
+  };
+
+  const progress = (totalXP: number): LevelProgress => {
+    const currentLevel = levelFromXP(totalXP);
+    const xpUsedForCompletedLevels = totalXPToLevel(currentLevel);
+    const xpInLevel = totalXP - xpUsedForCompletedLevels;
+    const xpNeededForNext = xpForLevel(currentLevel + 1);
+    const progressPercent = (xpInLevel / xpNeededForNext) * 100;
+
+    return {
+      currentLevel,
+      xpInLevel,
+      xpNeededForNext,
+      progressPercent
+    };
+  };
+
+  return { xpForLevel, totalXPToLevel, levelFromXP, progress };
+};
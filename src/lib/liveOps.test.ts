@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { defaultGameTypes, MAX_GAMES_PER_CYCLE } from './gameTypes';
+import { LiveOpsEvent, retargetLiveOps, validateLiveOpsEvent } from './liveOps';
+
+const tournament: LiveOpsEvent = {
+  name: 'Tournament Series',
+  startDate: '2025-01-15',
+  endDate: '2025-01-19',
+  xpMultiplier: 1,
+  extraGames: 3,
+  gameType: 'weekly',
+  color: '#8b5cf6'
+};
+
+const doubleXP: LiveOpsEvent = { ...tournament, name: 'Double XP Weekend', xpMultiplier: 2, extraGames: 0 };
+
+describe('retargetLiveOps', () => {
+  it('moves extra games of a removed game type to the first remaining type', () => {
+    const gameTypes = defaultGameTypes.filter((type) => type.id !== 'weekly');
+    const [event] = retargetLiveOps([tournament], gameTypes);
+    expect(event).toEqual({ ...tournament, gameType: 'daily' });
+    expect(validateLiveOpsEvent(event, gameTypes)).toEqual([]);
+  });
+
+  it('drops the extra games when no game type is left', () => {
+    const [event] = retargetLiveOps([tournament], []);
+    expect(event.extraGames).toBe(0);
+    expect(validateLiveOpsEvent(event, [])).toEqual([]);
+  });
+
+  it('keeps events that still point at an existing type or add no games', () => {
+    const events = [tournament, { ...doubleXP, gameType: 'removed' }];
+    expect(retargetLiveOps(events, defaultGameTypes)).toBe(events);
+  });
+});
+
+describe('validateLiveOpsEvent', () => {
+  it('caps extra games at the room the roll keys leave', () => {
+    expect(validateLiveOpsEvent({ ...tournament, extraGames: MAX_GAMES_PER_CYCLE }, defaultGameTypes)).toEqual([]);
+    expect(validateLiveOpsEvent({ ...tournament, extraGames: MAX_GAMES_PER_CYCLE + 1 }, defaultGameTypes)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { CalendarDay, formatISODate, parseISODate } from './calendar';
+import { GameTypeDefinition, MAX_GAMES_PER_CYCLE } from './gameTypes';
+
+// A scheduled live-ops event: boosted placement XP and/or extra games on every day from start to end
+export interface LiveOpsEvent {
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  xpMultiplier: number; // on placement XP earned during the event; 1 = no boost
+  extraGames: number; // added each event day, scaled by the game type's participation rate
+  gameType: string; // game type id whose rewards and placement odds the extra games use
+  color: string; // chart shading
+}
+
+// Starting point for a new event, placed relative to the season start
+export interface LiveOpsTemplate {
+  offsetDays: number;
+  durationDays: number;
+  event: Omit<LiveOpsEvent, 'startDate' | 'endDate' | 'gameType'>;
+}
+
+export const liveOpsTemplates: LiveOpsTemplate[] = [
+  { offsetDays: 5, durationDays: 2, event: { name: 'Double XP Weekend', xpMultiplier: 2, extraGames: 0, color: '#f59e0b' } },
+  { offsetDays: 0, durationDays: 7, event: { name: 'Holiday Bonus Week', xpMultiplier: 1.5, extraGames: 0, color: '#ef4444' } },
+  { offsetDays: 14, durationDays: 5, event: { name: 'Tournament Series', xpMultiplier: 1, extraGames: 3, color: '#8b5cf6' } }
+];
+
+export const eventFromTemplate = (template: LiveOpsTemplate, seasonStart: string, gameType: string): LiveOpsEvent => {
+  const start = parseISODate(seasonStart) ?? new Date();
+  const day = (offset: number) => formatISODate(new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset));
+  return {
+    ...template.event,
+    startDate: day(template.offsetDays),
+    endDate: day(template.offsetDays + template.durationDays - 1),
+    gameType
+  };
+};
+
+export const validateLiveOpsEvent = (event: LiveOpsEvent, gameTypes: GameTypeDefinition[]): string[] => {
+  const errors: string[] = [];
+  const name = event.name || 'Event';
+  const start = parseISODate(event.startDate);
+  const end = parseISODate(event.endDate);
+  if (!start || !end) errors.push(`${name}: dates must be valid YYYY-MM-DD dates`);
+  else if (end < start) errors.push(`${name}: end date must not be before the start date`);
+  if (!(event.xpMultiplier >= 1)) errors.push(`${name}: XP multiplier must be at least 1`);
+  if (!Number.isInteger(event.extraGames) || event.extraGames < 0 || event.extraGames > MAX_GAMES_PER_CYCLE) {
+    errors.push(`${name}: extra games must be a whole number from 0 to ${MAX_GAMES_PER_CYCLE}`);
+  }
+  if (event.extraGames > 0 && !gameTypes.some((type) => type.id === event.gameType)) {
+    errors.push(`${name}: extra games need an existing game type`);
+  }
+  return errors;
+};
+
+/**
+ * Events after a change to the game types: extra games played as a removed
+ * type move to the first remaining type, or are dropped when none is left.
+ * Returns the same array when no event needed changing.
+ */
+export const retargetLiveOps = (events: LiveOpsEvent[], gameTypes: GameTypeDefinition[]): LiveOpsEvent[] => {
+  const isOrphaned = (event: LiveOpsEvent) => event.extraGames > 0 && !gameTypes.some((type) => type.id === event.gameType);
+  if (!events.some(isOrphaned)) return events;
+  return events.map((event) => {
+    if (!isOrphaned(event)) return event;
+    return gameTypes.length > 0 ? { ...event, gameType: gameTypes[0].id } : { ...event, extraGames: 0 };
+  });
+};
+
+// Events running on a calendar day; dates compare as YYYY-MM-DD strings
+export const eventsOnDay = (events: LiveOpsEvent[], day: CalendarDay): LiveOpsEvent[] => {
+  if (events.length === 0) return events;
+  const date = formatISODate(day.date);
+  return events.filter((event) => event.startDate <= date && date <= event.endDate);
+};
+
+// Extra share of placement XP from the events running on a day; overlapping events add up
+export const eventBonus = (events: LiveOpsEvent[]): number => {
+  return events.reduce((bonus, event) => bonus + event.xpMultiplier - 1, 0);
+};
+
+// Roll keys for live-ops extra games sit above the game types' keys, so events never change scheduled games' rolls.
+// They follow the event's position in the list: inserting, removing or reordering events rerolls the events after it.
+const EXTRA_GAME_KEY_BASE = 1e9;
+
+export const extraGameRollKey = (eventIndex: number, dayIndex: number, gameIndex: number): number => {
+  return EXTRA_GAME_KEY_BASE + (eventIndex * 1000000) + (dayIndex * 1000) + gameIndex;
+};
+
+// First and last season day index an event covers, clipped to the season, or null if it falls outside it
+export const eventDayRange = (event: LiveOpsEvent, calendar: CalendarDay[]): [number, number] | null => {
+  const indices = calendar.map((day, index) => (eventsOnDay([event], day).length > 0 ? index : -1)).filter((index) => index !== -1);
+  return indices.length > 0 ? [indices[0], indices[indices.length - 1]] : null;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar } from './calendar';
+import { LevelMilestone, MAX_MILESTONE_LEVEL, milestoneLevels, milestoneTimeline } from './milestones';
+
+const calendar = buildCalendar({ startDate: '2025-01-01', weeklyEndDay: 0 });
+
+describe('milestoneLevels', () => {
+  it('repeats a milestone up to the highest milestone level and sorts every payout by level', () => {
+    const levels = milestoneLevels([
+      { level: 250, reward: 'Frame', repeatEvery: 0 },
+      { level: 100, reward: 'Chest', repeatEvery: 150 }
+    ]);
+    expect(levels).toEqual([
+      { level: 100, reward: 'Chest' },
+      { level: 250, reward: 'Frame' },
+      { level: 250, reward: 'Chest' },
+      { level: 400, reward: 'Chest' }
+    ]);
+    expect(milestoneLevels([{ level: 1, reward: 'Every level', repeatEvery: 1 }])).toHaveLength(MAX_MILESTONE_LEVEL);
+  });
+
+  it('skips invalid milestones', () => {
+    expect(milestoneLevels([
+      { level: 0, reward: 'Too low', repeatEvery: 0 },
+      { level: 600, reward: 'Too high', repeatEvery: 0 },
+      { level: 10, reward: 'Bad repeat', repeatEvery: -5 }
+    ])).toEqual([]);
+  });
+});
+
+describe('milestoneTimeline', () => {
+  const milestones: LevelMilestone[] = [
+    { level: 2, reward: 'Badge', repeatEvery: 0 },
+    { level: 3, reward: 'Emote', repeatEvery: 0 },
+    { level: 4, reward: 'Frame', repeatEvery: 0 },
+    { level: 10, reward: 'Title', repeatEvery: 0 }
+  ];
+  // Level 1 on day 1, then levels 2 to 4 all on day 3
+  const levels = [1, 1, 4, 4, 4];
+
+  it('gives every milestone passed in one jump the same day and date', () => {
+    const [badge, emote, frame] = milestoneTimeline(milestones, levels, calendar);
+    [badge, emote, frame].forEach((reach) => {
+      expect(reach.day).toBe(3);
+      expect(reach.date).toEqual(calendar[2].date);
+    });
+    expect([badge, emote, frame].map(({ reward }) => reward)).toEqual(['Badge', 'Emote', 'Frame']);
+  });
+
+  it('leaves milestones never reached without a day or date', () => {
+    expect(milestoneTimeline(milestones, levels, calendar)[3]).toEqual({ level: 10, reward: 'Title', day: null, date: null });
+    expect(milestoneTimeline(milestones, [], calendar).every(({ day, date }) => day === null && date === null)).toBe(true);
+  });
+
+  it('counts a milestone reached on the first day', () => {
+    const [badge] = milestoneTimeline(milestones, [2, 2], calendar);
+    expect(badge.day).toBe(1);
+    expect(badge.date).toEqual(calendar[0].date);
+  });
+});
@@ -0,0 +1,57 @@
+import { CalendarDay } from './calendar';
+import { firstDayAtLevel } from './simulation';
+
+// A reward granted on reaching a level, optionally again every `repeatEvery` levels after it
+export interface LevelMilestone {
+  level: number;
+  reward: string;
+  repeatEvery: number; // 0 = once
+}
+
+export const defaultMilestones: LevelMilestone[] = [
+  { level: 10, reward: 'Unlock ranked', repeatEvery: 0 },
+  { level: 25, reward: 'Currency', repeatEvery: 25 },
+  { level: 50, reward: 'Cosmetic frame', repeatEvery: 0 }
+];
+
+// Highest level milestones are expanded to, matching the level list
+export const MAX_MILESTONE_LEVEL = 500;
+
+export interface MilestoneReach {
+  level: number;
+  reward: string;
+  day: number | null; // 1-based season day it is reached on, or null if it isn't this season
+  date: Date | null;
+}
+
+export const validateMilestone = (milestone: LevelMilestone): string[] => {
+  const errors: string[] = [];
+  const name = milestone.reward || `Level ${milestone.level}`;
+  if (!Number.isInteger(milestone.level) || milestone.level < 1 || milestone.level > MAX_MILESTONE_LEVEL) {
+    errors.push(`${name}: level must be a whole number from 1 to ${MAX_MILESTONE_LEVEL}`);
+  }
+  if (!Number.isInteger(milestone.repeatEvery) || milestone.repeatEvery < 0) {
+    errors.push(`${name}: repeat interval must be a whole number of levels, or 0 for once`);
+  }
+  return errors;
+};
+
+// Every level a milestone pays out at, up to MAX_MILESTONE_LEVEL, in level order
+export const milestoneLevels = (milestones: LevelMilestone[]): { level: number; reward: string }[] => {
+  return milestones
+    .filter((milestone) => validateMilestone(milestone).length === 0)
+    .flatMap((milestone) => {
+      if (milestone.repeatEvery === 0) return [{ level: milestone.level, reward: milestone.reward }];
+      const count = Math.floor((MAX_MILESTONE_LEVEL - milestone.level) / milestone.repeatEvery) + 1;
+      return Array.from({ length: count }, (_, i) => ({ level: milestone.level + i * milestone.repeatEvery, reward: milestone.reward }));
+    })
+    .sort((a, b) => a.level - b.level);
+};
+
+// When a player with the given level series reaches each milestone level
+export const milestoneTimeline = (milestones: LevelMilestone[], levels: number[], calendar: CalendarDay[]): MilestoneReach[] => {
+  return milestoneLevels(milestones).map(({ level, reward }) => {
+    const day = firstDayAtLevel(levels, level);
+    return { level, reward, day, date: day === null ? null : calendar[day - 1].date };
+  });
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { boosterBonus, defaultModifiers, expectedStreakBonus, isBoosterActive, newBooster, WinStreakModifier, XPBooster } from './modifiers';
+
+const streak: WinStreakModifier = { enabled: true, bonusPerWin: 0.1, maxBonus: 0.5 };
+
+describe('expectedStreakBonus', () => {
+  it('averages the capped bonus over a geometric number of earlier wins', () => {
+    // 1–4 earlier wins earn 10–40%; five or more reach the 50% cap
+    const expected = [1, 2, 3, 4].reduce((sum, wins) => sum + 0.5 * Math.pow(0.5, wins) * 0.1 * wins, 0) + Math.pow(0.5, 5) * 0.5;
+    expect(expectedStreakBonus(streak, 0.5)).toBeCloseTo(expected, 12);
+  });
+
+  it('matches the bonus summed over long runs of wins', () => {
+    const series = Array.from({ length: 500 }, (_, wins) => 0.7 * Math.pow(0.3, wins) * Math.min(0.35, 0.04 * wins));
+    const total = series.reduce((sum, value) => sum + value, 0);
+    expect(expectedStreakBonus({ enabled: true, bonusPerWin: 0.04, maxBonus: 0.35 }, 0.3)).toBeCloseTo(total, 12);
+  });
+
+  it.each([
+    ['never winning', streak, 0, 0],
+    ['always winning', streak, 1, 0.5],
+    ['a disabled streak', defaultModifiers.winStreak, 0.5, 0],
+    ['no bonus per win', { ...streak, bonusPerWin: 0 }, 0.5, 0]
+  ])('handles %s', (_, modifier, winChance, bonus) => {
+    expect(expectedStreakBonus(modifier, winChance)).toBe(bonus);
+  });
+});
+
+describe('boosters', () => {
+  // Days 6–7 of every week
+  const weekend: XPBooster = newBooster();
+  const launch: XPBooster = { ...weekend, name: 'Launch', multiplier: 1.5, startDay: 1, durationDays: 3, repeatEveryDays: 0 };
+
+  it('repeats a window on its interval from the start day', () => {
+    const active = Array.from({ length: 21 }, (_, i) => i + 1).filter((day) => isBoosterActive(weekend, day));
+    expect(active).toEqual([6, 7, 13, 14, 20, 21]);
+  });
+
+  it('runs a single window once', () => {
+    expect([1, 3, 4, 8].map((day) => isBoosterActive(launch, day))).toEqual([true, true, false, false]);
+  });
+
+  it('never runs when disabled', () => {
+    expect(isBoosterActive({ ...weekend, enabled: false }, 6)).toBe(false);
+  });
+
+  it('adds up overlapping boosters', () => {
+    const early: XPBooster = { ...launch, startDay: 6 };
+    expect(boosterBonus([weekend, early], 6)).toBeCloseTo(1.5, 12);
+    expect(boosterBonus([weekend, early], 8)).toBeCloseTo(0.5, 12);
+    expect(boosterBonus([weekend, early], 9)).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+// Consecutive wins (games in the top tier) raise the XP of the next win, up to a cap
+export interface WinStreakModifier {
+  enabled: boolean;
+  bonusPerWin: number; // extra share of placement XP per win already in the streak
+  maxBonus: number; // cap on the extra share
+}
+
+// Flat XP for the first win on each day
+export interface FirstWinModifier {
+  enabled: boolean;
+  xp: number;
+}
+
+// Flat XP for every day the player completes at least one game
+export interface DailyLoginModifier {
+  enabled: boolean;
+  xp: number;
+}
+
+// Multiplies placement XP while active: once from the start day, or repeating on a fixed interval
+export interface XPBooster {
+  name: string;
+  enabled: boolean;
+  multiplier: number; // 2 = double XP
+  startDay: number; // 1-based season day
+  durationDays: number;
+  repeatEveryDays: number; // 0 = a single window
+}
+
+export interface XPModifiers {
+  winStreak: WinStreakModifier;
+  firstWin: FirstWinModifier;
+  dailyLogin: DailyLoginModifier;
+  boosters: XPBooster[];
+}
+
+export const defaultModifiers: XPModifiers = {
+  winStreak: { enabled: false, bonusPerWin: 0.1, maxBonus: 0.5 },
+  firstWin: { enabled: false, xp: 5 },
+  dailyLogin: { enabled: false, xp: 1 },
+  boosters: []
+};
+
+// Where each point of XP came from, in chart stacking order
+export const xpSources = ['placement', 'streak', 'firstWin', 'login', 'booster', 'event'] as const;
+export type XPSource = (typeof xpSources)[number];
+
+export const xpSourceLabels: Record<XPSource, string> = {
+  placement: 'Placements',
+  streak: 'Win Streaks',
+  firstWin: 'First Win of the Day',
+  login: 'Daily Login',
+  booster: 'Boosters',
+  event: 'Live Events'
+};
+
+export const xpSourceColors: Record<XPSource, string> = {
+  placement: 'rgb(59, 130, 246)',
+  streak: 'rgb(249, 115, 22)',
+  firstWin: 'rgb(234, 179, 8)',
+  login: 'rgb(20, 184, 166)',
+  booster: 'rgb(168, 85, 247)',
+  event: 'rgb(236, 72, 153)'
+};
+
+export const newBooster = (): XPBooster => ({
+  name: 'Weekend Double XP',
+  enabled: true,
+  multiplier: 2,
+  startDay: 6,
+  durationDays: 2,
+  repeatEveryDays: 7
+});
+
+export const hasActiveModifiers = (modifiers: XPModifiers): boolean => {
+  return modifiers.winStreak.enabled
+    || modifiers.firstWin.enabled
+    || modifiers.dailyLogin.enabled
+    || modifiers.boosters.some((booster) => booster.enabled);
+};
+
+export const validateModifiers = (modifiers: XPModifiers): string[] => {
+  const errors: string[] = [];
+  if (!(modifiers.winStreak.bonusPerWin >= 0)) errors.push('Win streak bonus per win must not be negative');
+  if (!(modifiers.winStreak.maxBonus >= 0)) errors.push('Win streak bonus cap must not be negative');
+  if (!(modifiers.firstWin.xp >= 0)) errors.push('First win XP must not be negative');
+  if (!(modifiers.dailyLogin.xp >= 0)) errors.push('Daily login XP must not be negative');
+  modifiers.boosters.forEach((booster) => {
+    const name = booster.name || 'Booster';
+    if (!(booster.multiplier >= 1)) errors.push(`${name}: multiplier must be at least 1`);
+    if (!Number.isInteger(booster.startDay) || booster.startDay < 1) errors.push(`${name}: start day must be a whole number from 1`);
+    if (!Number.isInteger(booster.durationDays) || booster.durationDays < 1) errors.push(`${name}: duration must be a whole number of days from 1`);
+    if (!Number.isInteger(booster.repeatEveryDays) || booster.repeatEveryDays < 0) {
+      errors.push(`${name}: repeat interval must be a whole number of days, or 0 for once`);
+    }
+  });
+  return errors;
+};
+
+export const isBoosterActive = (booster: XPBooster, day: number): boolean => {
+  if (!booster.enabled || day < booster.startDay) return false;
+  const offset = day - booster.startDay;
+  return (booster.repeatEveryDays > 0 ? offset % booster.repeatEveryDays : offset) < booster.durationDays;
+};
+
+// Extra share of placement XP from every booster active on the 1-based season day; overlapping boosters add up
+export const boosterBonus = (boosters: XPBooster[], day: number): number => {
+  return boosters.reduce((bonus, booster) => bonus + (isBoosterActive(booster, day) ? booster.multiplier - 1 : 0), 0);
+};
+
+// Extra share of placement XP for a win with `streak` wins directly before it
+export const streakBonus = (modifier: WinStreakModifier, streak: number): number => {
+  return modifier.enabled ? Math.min(modifier.maxBonus, modifier.bonusPerWin * streak) : 0;
+};
+
+/**
+ * Average streak bonus on a win when every game is won with probability
+ * `winChance`: the number of wins directly before it is geometric, and the
+ * bonus stops growing once it reaches the cap.
+ */
+export const expectedStreakBonus = (modifier: WinStreakModifier, winChance: number): number => {
+  if (!modifier.enabled || modifier.bonusPerWin <= 0 || winChance <= 0) return 0;
+  if (winChance >= 1) return modifier.maxBonus;
+  const cappedAt = Math.ceil(modifier.maxBonus / modifier.bonusPerWin);
+  let expected = 0;
+  for (let wins = 0; wins < cappedAt; wins++) {
+    expected += (1 - winChance) * Math.pow(winChance, wins) * streakBonus(modifier, wins);
+  }
+  return expected + Math.pow(winChance, cappedAt) * modifier.maxBonus;
+};
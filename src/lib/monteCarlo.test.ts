@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { histogram, MonteCarloResult, percentile, probabilityOfReaching, runMonteCarlo, runMonteCarloInChunks } from './monteCarlo';
+import { DEFAULT_SEED } from './random';
+import { defaultConfig } from './testConfig';
+
+const config = defaultConfig('average', 'stochastic');
+
+const oneToTen = Array.from({ length: 10 }, (_, i) => i + 1);
+
+describe('percentile', () => {
+  it.each([
+    [0, 1],
+    [10, 1],
+    [15, 2],
+    [50, 5],
+    [90, 9],
+    [100, 10]
+  ])('takes the nearest rank for the %ith percentile', (p, value) => {
+    expect(percentile(oneToTen, p)).toBe(value);
+  });
+
+  it('returns 0 for no values', () => {
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('histogram', () => {
+  it('splits the range into equal-width bins', () => {
+    expect(histogram(oneToTen, 5)).toEqual([
+      { from: 1, to: 2, count: 2 },
+      { from: 3, to: 4, count: 2 },
+      { from: 5, to: 6, count: 2 },
+      { from: 7, to: 8, count: 2 },
+      { from: 9, to: 10, count: 2 }
+    ]);
+  });
+
+  it('rounds the bin width up and keeps empty bins in between', () => {
+    expect(histogram([3, 3, 4, 10], 4)).toEqual([
+      { from: 3, to: 4, count: 3 },
+      { from: 5, to: 6, count: 0 },
+      { from: 7, to: 8, count: 0 },
+      { from: 9, to: 10, count: 1 }
+    ]);
+  });
+
+  it('uses fewer bins than asked when the range is narrower', () => {
+    expect(histogram([7, 7, 8], 10)).toEqual([{ from: 7, to: 7, count: 2 }, { from: 8, to: 8, count: 1 }]);
+  });
+
+  it('returns no bins for no values', () => {
+    expect(histogram([], 10)).toEqual([]);
+  });
+});
+
+describe('probabilityOfReaching', () => {
+  it('counts the runs ending at or above the target', () => {
+    const result = { finalLevels: oneToTen } as MonteCarloResult;
+    expect(probabilityOfReaching(result, 8)).toBe(0.3);
+    expect(probabilityOfReaching(result, 11)).toBe(0);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  const result = runMonteCarlo(config, 40, DEFAULT_SEED);
+
+  it('orders the bands on every day', () => {
+    [result.xp, result.levels].forEach((band) => {
+      band.p50.forEach((median, day) => {
+        expect(band.p10[day]).toBeLessThanOrEqual(median);
+        expect(median).toBeLessThanOrEqual(band.p90[day]);
+      });
+    });
+  });
+
+  it('ends the median level band at the median year-end level', () => {
+    expect(result.finalLevels).toHaveLength(40);
+    expect(result.finalLevels).toEqual([...result.finalLevels].sort((a, b) => a - b));
+    expect(result.levels.p50[result.levels.p50.length - 1]).toBe(percentile(result.finalLevels, 50));
+  });
+
+  it('repeats for the same seed', () => {
+    expect(runMonteCarlo(config, 40, DEFAULT_SEED)).toEqual(result);
+  });
+});
+
+describe('runMonteCarloInChunks', () => {
+  it('gives the same result as a single pass', async () => {
+    expect(await runMonteCarloInChunks(config, 120, DEFAULT_SEED)).toEqual(runMonteCarlo(config, 120, DEFAULT_SEED));
+  });
+
+  it('reports progress after every chunk, ending at 1', async () => {
+    const progress: number[] = [];
+    await runMonteCarloInChunks(config, 120, DEFAULT_SEED, (done) => progress.push(done));
+    expect(progress).toEqual([50 / 120, 100 / 120, 1]);
+  });
+});
@@ -0,0 +1,125 @@
+import { buildCalendar } from './calendar';
+import { createLevelScale } from './levels';
+import { createRandom, deriveSeed } from './random';
+import { simulateYear, SimulationConfig } from './simulation';
+
+export interface PercentileBand {
+  p10: number[];
+  p50: number[];
+  p90: number[];
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  xp: PercentileBand; // cumulative XP by day
+  levels: PercentileBand; // player level by day
+  finalLevels: number[]; // year-end level of every run, sorted ascending
+}
+
+// Run counts offered for the bands
+export const monteCarloRunOptions = [500, 1000, 2500, 5000];
+export const DEFAULT_MONTE_CARLO_RUNS = 1000;
+
+// Nearest-rank percentile of an ascending-sorted array
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+};
+
+const bandFromRuns = (runsByDay: Float64Array[]): PercentileBand => {
+  const band: PercentileBand = { p10: [], p50: [], p90: [] };
+  runsByDay.forEach((values) => {
+    const sorted = Array.from(values).sort((a, b) => a - b);
+    band.p10.push(percentile(sorted, 10));
+    band.p50.push(percentile(sorted, 50));
+    band.p90.push(percentile(sorted, 90));
+  });
+  return band;
+};
+
+// Rolls seasons one at a time into per-day columns, then summarises them
+interface MonteCarloRun {
+  simulateRun: (run: number) => void;
+  summarize: () => MonteCarloResult;
+}
+
+const startMonteCarloRun = (config: SimulationConfig, runs: number, baseSeed: number): MonteCarloRun => {
+  const levelScale = createLevelScale(config.curve);
+  const seasonLength = buildCalendar(config.calendar).length;
+  const xpByDay = Array.from({ length: seasonLength }, () => new Float64Array(runs));
+  const levelsByDay = Array.from({ length: seasonLength }, () => new Float64Array(runs));
+
+  const simulateRun = (run: number) => {
+    const random = createRandom(deriveSeed(baseSeed, run));
+    // Expected-value runs would all come out the same, so every run is rolled
+    const result = simulateYear({ ...config, mode: 'stochastic', random }, levelScale);
+    for (let day = 0; day < seasonLength; day++) {
+      xpByDay[day][run] = result.cumulativeXP[day];
+      levelsByDay[day][run] = result.levels[day];
+    }
+  };
+
+  const summarize = (): MonteCarloResult => ({
+    runs,
+    xp: bandFromRuns(xpByDay),
+    levels: bandFromRuns(levelsByDay),
+    finalLevels: Array.from(levelsByDay[seasonLength - 1]).sort((a, b) => a - b)
+  });
+
+  return { simulateRun, summarize };
+};
+
+/**
+ * Runs the year simulation `runs` times, each with its own seeded generator,
+ * and summarises the spread of XP and level per day.
+ */
+export const runMonteCarlo = (config: SimulationConfig, runs: number, baseSeed: number): MonteCarloResult => {
+  const monteCarlo = startMonteCarloRun(config, runs, baseSeed);
+  for (let run = 0; run < runs; run++) monteCarlo.simulateRun(run);
+  return monteCarlo.summarize();
+};
+
+// Seasons rolled between yields to the browser; a chunk takes a few tens of milliseconds
+const RUNS_PER_CHUNK = 50;
+
+// Same result as runMonteCarlo, run in chunks so the page stays responsive; reports the share of runs done
+export const runMonteCarloInChunks = async (
+  config: SimulationConfig,
+  runs: number,
+  baseSeed: number,
+  onProgress?: (done: number) => void
+): Promise<MonteCarloResult> => {
+  const monteCarlo = startMonteCarloRun(config, runs, baseSeed);
+  for (let start = 0; start < runs; start += RUNS_PER_CHUNK) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const end = Math.min(runs, start + RUNS_PER_CHUNK);
+    for (let run = start; run < end; run++) monteCarlo.simulateRun(run);
+    onProgress?.(end / runs);
+  }
+  return monteCarlo.summarize();
+};
+
+// Share of runs whose year-end level reached at least targetLevel
+export const probabilityOfReaching = (result: MonteCarloResult, targetLevel: number): number => {
+  if (result.finalLevels.length === 0) return 0;
+  const reached = result.finalLevels.filter((level) => level >= targetLevel).length;
+  return reached / result.finalLevels.length;
+};
+
+// Bucket year-end levels into equal-width bins for the summary histogram
+export const histogram = (sortedValues: number[], binCount: number): { from: number; to: number; count: number }[] => {
+  if (sortedValues.length === 0) return [];
+  const min = sortedValues[0];
+  const max = sortedValues[sortedValues.length - 1];
+  const width = Math.max(1, Math.ceil((max - min + 1) / binCount));
+  const bins = Array.from({ length: Math.ceil((max - min + 1) / width) }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width - 1,
+    count: 0
+  }));
+  sortedValues.forEach((value) => {
+    bins[Math.floor((value - min) / width)].count++;
+  });
+  return bins;
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { percentile } from './monteCarlo';
+import {
+  defaultPopulation,
+  POPULATION_MILESTONES,
+  POPULATION_PERCENTILES,
+  simulatePopulation,
+  simulatePopulationInChunks
+} from './population';
+import { playerProfiles } from './profiles';
+import { DEFAULT_SEED } from './random';
+import { defaultConfig } from './testConfig';
+
+const config = defaultConfig('average', 'stochastic');
+
+describe('simulatePopulation', () => {
+  const population = { ...defaultPopulation, size: 200 };
+  const result = simulatePopulation(config, playerProfiles, population, DEFAULT_SEED);
+
+  it('counts the players at or above each milestone by season end', () => {
+    expect(result.milestones.map(({ level }) => level)).toEqual(POPULATION_MILESTONES);
+    result.milestones.forEach(({ level, fraction, medianDay }) => {
+      expect(fraction).toBe(result.finalLevels.filter((final) => final >= level).length / population.size);
+      expect(medianDay === null).toBe(fraction === 0);
+    });
+    expect(result.milestones.some(({ fraction }) => fraction === 0)).toBe(true);
+  });
+
+  it('puts the median milestone day between the checkpoints either side of it', () => {
+    const { milestones, checkpoints } = simulatePopulation(config, playerProfiles, { ...population, size: 1 }, DEFAULT_SEED);
+    const reached = milestones.filter(({ medianDay }) => medianDay !== null);
+    expect(reached.length).toBeGreaterThan(1);
+    // With one player every percentile is that player's level
+    reached.forEach(({ level, medianDay }) => {
+      checkpoints.forEach(({ day, levels }) => {
+        if (day < medianDay!) expect(levels[0]).toBeLessThan(level);
+        else expect(levels[0]).toBeGreaterThanOrEqual(level);
+      });
+    });
+  });
+
+  it('reads each checkpoint at the reported percentiles', () => {
+    const days = result.checkpoints.map(({ day }) => day);
+    expect(days.slice(0, 3)).toEqual([1, 3, 7]);
+    expect(days[days.length - 1]).toBe(result.averageXP.length);
+    result.checkpoints.forEach(({ levels }) => {
+      expect(levels).toEqual([...levels].sort((a, b) => a - b));
+    });
+    const [last] = result.checkpoints.slice(-1);
+    expect(last.levels).toEqual(POPULATION_PERCENTILES.map((p) => percentile(result.finalLevels, p)));
+  });
+
+  it('averages XP over every player, the same as over survivors, with retention off', () => {
+    expect(result.activeShare.every((share) => share === 1)).toBe(true);
+    expect(result.survivorXP).toEqual(result.averageXP);
+    expect(result.churn).toEqual([]);
+    expect(result.meanLevelAtChurn).toBeNull();
+  });
+});
+
+describe('simulatePopulationInChunks', () => {
+  const population = { ...defaultPopulation, size: 250, retention: { ...defaultPopulation.retention, enabled: true } };
+
+  it('gives the same result as a single pass', async () => {
+    const chunked = await simulatePopulationInChunks(config, playerProfiles, population, DEFAULT_SEED);
+    expect(chunked).toEqual(simulatePopulation(config, playerProfiles, population, DEFAULT_SEED));
+  });
+
+  it('reports progress after every chunk, ending at 1', async () => {
+    const progress: number[] = [];
+    await simulatePopulationInChunks(config, playerProfiles, population, DEFAULT_SEED, (done) => progress.push(done));
+    expect(progress).toEqual([0.2, 0.4, 0.6, 0.8, 1]);
+  });
+});
+
+describe('simulatePopulation with retention', () => {
+  const retention = { ...defaultPopulation.retention, enabled: true };
+  const withCurve = (curve: number[], size: number) => {
+    return simulatePopulation(config, playerProfiles, { ...defaultPopulation, size, retention: { ...retention, curve } }, DEFAULT_SEED);
+  };
+
+  it('freezes XP and level at the last day played', () => {
+    // Everyone plays day 1 only
+    const result = withCurve([0], 50);
+    const [firstDay] = result.checkpoints;
+    const meanFinalLevel = result.finalLevels.reduce((sum, level) => sum + level, 0) / result.size;
+    expect(result.averageXP.every((xp) => xp === result.averageXP[0])).toBe(true);
+    expect(firstDay.levels).toEqual(POPULATION_PERCENTILES.map((p) => percentile(result.finalLevels, p)));
+    expect(result.activeShare.slice(0, 2)).toEqual([1, 0]);
+    expect(result.survivorXP.slice(0, 2)).toEqual([result.averageXP[0], null]);
+    expect(result.churn[0]).toEqual({ label: 'Day 1 only', share: 1, meanLevel: meanFinalLevel });
+    expect(result.meanLevelAtChurn).toBe(meanFinalLevel);
+  });
+
+  it('puts each player in the bucket of their last day played', () => {
+    // Drops on days 1, 2, 8, 31 and 91, one for each bucket, with a tenth of players never leaving
+    const curve = Array.from({ length: 100 }, (_, i) => {
+      const day = i + 1;
+      return day === 1 ? 0.8 : day < 8 ? 0.6 : day < 31 ? 0.4 : day < 91 ? 0.2 : 0.1;
+    });
+    const { churn, activeShare } = withCurve(curve, 500);
+    const last = activeShare.length - 1;
+    expect(churn.map(({ label }) => label)).toEqual(['Day 1 only', 'Days 2–7', 'Days 8–30', 'Days 31–90', 'After day 90']);
+    expect(activeShare[2]).toBe(activeShare[7]);
+    expect(churn.map(({ share }) => share)).toEqual([
+      activeShare[0] - activeShare[1],
+      activeShare[1] - activeShare[7],
+      activeShare[7] - activeShare[30],
+      activeShare[30] - activeShare[90],
+      activeShare[90] - activeShare[last]
+    ].map((share) => expect.closeTo(share, 12)));
+    churn.slice(0, 4).forEach(({ share }) => expect(share).toBeCloseTo(0.2, 1));
+    expect(activeShare[last]).toBeCloseTo(0.1, 1);
+  });
+
+  it('keeps the configured share of players on D1 and D7', () => {
+    const { activeShare } = simulatePopulation(config, playerProfiles, { ...defaultPopulation, size: 500, retention }, DEFAULT_SEED);
+    expect(Math.abs(activeShare[1] - retention.d1)).toBeLessThan(0.05);
+    expect(Math.abs(activeShare[7] - retention.d7)).toBeLessThan(0.05);
+  });
+});
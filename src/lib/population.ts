@@ -0,0 +1,266 @@
+import { buildCalendar } from './calendar';
+import { createLevelScale } from './levels';
+import { percentile } from './monteCarlo';
+import { PlayerProfile, PlayerProfiles } from './profiles';
+import { createRandom, deriveSeed } from './random';
+import { churnDay, defaultRetention, RetentionModel, survivalCurve, validateRetention } from './retention';
+import { firstDayAtLevel, simulateYear, SimulationConfig } from './simulation';
+
+// A slice of the player base by how much they play; participation scales every game type's participation rate
+export interface ActivityLevel {
+  name: string;
+  participation: number; // 0–1
+  share: number; // relative weight in the population
+}
+
+export interface PopulationConfig {
+  size: number;
+  profileWeights: Record<PlayerProfile, number>; // relative weight of each profile; missing profiles are never sampled
+  activityLevels: ActivityLevel[];
+  retention: RetentionModel; // when enabled, players stop at sampled churn days
+}
+
+export const defaultPopulation: PopulationConfig = {
+  size: 10000,
+  profileWeights: { 'wins-everything': 0.02, 'exceptional': 0.18, 'average': 0.6, 'looser': 0.2 },
+  activityLevels: [
+    { name: 'Casual', participation: 0.3, share: 0.5 },
+    { name: 'Regular', participation: 0.7, share: 0.35 },
+    { name: 'Dedicated', participation: 1, share: 0.15 }
+  ],
+  retention: defaultRetention
+};
+
+export const MAX_POPULATION_SIZE = 100000;
+
+// Levels reported in the milestone table and percentiles in the by-day table
+export const POPULATION_MILESTONES = [5, 10, 25, 50, 75, 100];
+export const POPULATION_PERCENTILES = [10, 25, 50, 75, 90, 99];
+
+// Early days in the by-day table, ahead of the month ends, to show pacing through the first week
+const EARLY_CHECKPOINT_DAYS = [1, 3, 7];
+
+// When players stop playing, by the last season day they play
+const CHURN_BUCKETS: { label: string; lastDay: number }[] = [
+  { label: 'Day 1 only', lastDay: 1 },
+  { label: 'Days 2–7', lastDay: 7 },
+  { label: 'Days 8–30', lastDay: 30 },
+  { label: 'Days 31–90', lastDay: 90 },
+  { label: 'After day 90', lastDay: Infinity }
+];
+
+export interface PopulationCheckpoint {
+  day: number; // 1-based season day
+  date: Date;
+  levels: number[]; // level at each of POPULATION_PERCENTILES
+}
+
+export interface PopulationMilestone {
+  level: number;
+  fraction: number; // share of players at or above the level by season end
+  medianDay: number | null; // median first day among the players who reach it
+}
+
+export interface ChurnBucket {
+  label: string;
+  share: number; // share of all players who stop in this window
+  meanLevel: number | null; // average level when they stop
+}
+
+export interface PopulationResult {
+  size: number;
+  finalLevels: number[]; // year-end level of every player (frozen at churn), sorted ascending
+  checkpoints: PopulationCheckpoint[]; // a few early days, the month ends and the last day
+  milestones: PopulationMilestone[];
+  activeShare: number[]; // share of players still playing on each day
+  averageXP: number[]; // mean cumulative XP by day over every player, frozen at churn
+  survivorXP: (number | null)[]; // mean cumulative XP by day over the players still playing
+  churn: ChurnBucket[]; // empty when retention is off
+  meanLevelAtChurn: number | null;
+}
+
+export const validatePopulation = (population: PopulationConfig, profiles: PlayerProfiles): string[] => {
+  const errors: string[] = [];
+  if (!Number.isInteger(population.size) || population.size < 1 || population.size > MAX_POPULATION_SIZE) {
+    errors.push(`Population size must be a whole number from 1 to ${MAX_POPULATION_SIZE.toLocaleString()}`);
+  }
+  const weights = Object.entries(population.profileWeights).filter(([id]) => id in profiles).map(([, weight]) => weight);
+  if (weights.some((weight) => !(weight >= 0))) errors.push('Profile weights must not be negative');
+  if (!(weights.reduce((sum, weight) => sum + weight, 0) > 0)) errors.push('At least one profile needs a weight above 0');
+  if (population.activityLevels.length === 0) errors.push('At least one activity level is required');
+  population.activityLevels.forEach((level) => {
+    if (!(level.participation >= 0 && level.participation <= 1)) errors.push(`${level.name || 'Activity level'}: participation must be between 0% and 100%`);
+    if (!(level.share >= 0)) errors.push(`${level.name || 'Activity level'}: share must not be negative`);
+  });
+  if (!(population.activityLevels.reduce((sum, level) => sum + level.share, 0) > 0)) {
+    errors.push('At least one activity level needs a share above 0');
+  }
+  if (population.retention.enabled) errors.push(...validateRetention(population.retention));
+  return Array.from(new Set(errors));
+};
+
+// Index into `weights` chosen with probability proportional to its weight, from a uniform roll in [0, 1)
+const pickWeighted = (weights: number[], roll: number): number => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let cumulative = 0;
+  for (let i = 0; i < weights.length - 1; i++) {
+    cumulative += weights[i] / total;
+    if (roll < cumulative) return i;
+  }
+  return weights.length - 1;
+};
+
+// Simulates players one at a time into running totals, then summarises them
+interface PopulationRun {
+  simulatePlayer: (player: number) => void;
+  summarize: () => PopulationResult;
+}
+
+const startPopulationRun = (
+  config: SimulationConfig,
+  profiles: PlayerProfiles,
+  population: PopulationConfig,
+  baseSeed: number
+): PopulationRun => {
+  const levelScale = createLevelScale(config.curve);
+  const calendar = buildCalendar(config.calendar);
+  const seasonLength = calendar.length;
+  const checkpointDays = calendar
+    .map((day, index) => (day.isMonthEnd || index === seasonLength - 1 || EARLY_CHECKPOINT_DAYS.includes(day.day) ? index : -1))
+    .filter((index) => index !== -1);
+  const survival = population.retention.enabled ? survivalCurve(population.retention, seasonLength) : null;
+  const profileEntries = Object.entries(profiles).filter(([id]) => (population.profileWeights[id] ?? 0) > 0);
+  const profileWeights = profileEntries.map(([id]) => population.profileWeights[id]);
+  const levelWeights = population.activityLevels.map((level) => level.share);
+  const gameTypesByLevel = population.activityLevels.map((level) => config.gameTypes.map((type) => ({
+    ...type,
+    participationRate: Math.min(1, type.participationRate * level.participation)
+  })));
+
+  const finalLevels: number[] = [];
+  const checkpointLevels: number[][] = checkpointDays.map(() => []);
+  const milestoneDays: number[][] = POPULATION_MILESTONES.map(() => []);
+  const activeCounts = new Float64Array(seasonLength);
+  const xpTotals = new Float64Array(seasonLength);
+  const survivorXPTotals = new Float64Array(seasonLength);
+  const churnCounts = CHURN_BUCKETS.map(() => 0);
+  const churnLevelTotals = CHURN_BUCKETS.map(() => 0);
+
+  const simulatePlayer = (player: number) => {
+    const random = createRandom(deriveSeed(baseSeed, player));
+    const [, profile] = profileEntries[pickWeighted(profileWeights, random())];
+    const levelIndex = pickWeighted(levelWeights, random());
+    // Expected-value runs would be identical for every player sharing a profile and activity level, so every game is rolled
+    const result = simulateYear({
+      ...config,
+      mode: 'stochastic',
+      gameTypes: gameTypesByLevel[levelIndex],
+      distribution: profile.distribution,
+      rating: profile.rating,
+      seedOffset: profile.seedOffset,
+      random
+    }, levelScale);
+
+    // Days played: everything before the churn day
+    const played = survival ? churnDay(survival, random()) ?? seasonLength : seasonLength;
+    const levelOn = (dayIndex: number) => result.levels[Math.min(dayIndex, played - 1)];
+    for (let day = 0; day < seasonLength; day++) {
+      const xp = result.cumulativeXP[Math.min(day, played - 1)];
+      xpTotals[day] += xp;
+      if (day < played) {
+        activeCounts[day]++;
+        survivorXPTotals[day] += xp;
+      }
+    }
+    if (played < seasonLength) {
+      const bucket = CHURN_BUCKETS.findIndex(({ lastDay }) => played <= lastDay);
+      churnCounts[bucket]++;
+      churnLevelTotals[bucket] += levelOn(played - 1);
+    }
+
+    checkpointDays.forEach((dayIndex, i) => checkpointLevels[i].push(levelOn(dayIndex)));
+    finalLevels.push(levelOn(seasonLength - 1));
+    const playedLevels = result.levels.slice(0, played);
+    POPULATION_MILESTONES.forEach((level, i) => {
+      const day = firstDayAtLevel(playedLevels, level);
+      if (day !== null) milestoneDays[i].push(day);
+    });
+  };
+
+  const summarize = (): PopulationResult => {
+    const churned = churnCounts.reduce((sum, count) => sum + count, 0);
+    const ascending = (a: number, b: number) => a - b;
+    return {
+      size: population.size,
+      finalLevels: finalLevels.sort(ascending),
+      checkpoints: checkpointDays.map((dayIndex, i) => {
+        const sorted = checkpointLevels[i].sort(ascending);
+        return {
+          day: calendar[dayIndex].day,
+          date: calendar[dayIndex].date,
+          levels: POPULATION_PERCENTILES.map((p) => percentile(sorted, p))
+        };
+      }),
+      milestones: POPULATION_MILESTONES.map((level, i) => {
+        const days = milestoneDays[i].sort(ascending);
+        return {
+          level,
+          fraction: population.size > 0 ? days.length / population.size : 0,
+          medianDay: days.length > 0 ? percentile(days, 50) : null
+        };
+      }),
+      activeShare: Array.from(activeCounts, (count) => count / population.size),
+      averageXP: Array.from(xpTotals, (total) => total / population.size),
+      survivorXP: Array.from(survivorXPTotals, (total, day) => (activeCounts[day] > 0 ? total / activeCounts[day] : null)),
+      churn: survival
+        ? CHURN_BUCKETS.map(({ label }, i) => ({
+          label,
+          share: churnCounts[i] / population.size,
+          meanLevel: churnCounts[i] > 0 ? churnLevelTotals[i] / churnCounts[i] : null
+        }))
+        : [],
+      meanLevelAtChurn: churned > 0 ? churnLevelTotals.reduce((sum, total) => sum + total, 0) / churned : null
+    };
+  };
+
+  return { simulatePlayer, summarize };
+};
+
+/**
+ * Simulates a population of players, each with a profile and activity level
+ * drawn from the mix and their own seeded placement rolls, and summarises
+ * year-end levels, levels by day and how many players reach each milestone.
+ * With retention on, each player also draws a churn day from the survival
+ * curve; their XP and level stay frozen from then on.
+ */
+export const simulatePopulation = (
+  config: SimulationConfig,
+  profiles: PlayerProfiles,
+  population: PopulationConfig,
+  baseSeed: number
+): PopulationResult => {
+  const run = startPopulationRun(config, profiles, population, baseSeed);
+  for (let player = 0; player < population.size; player++) run.simulatePlayer(player);
+  return run.summarize();
+};
+
+// Players simulated between yields to the browser; a chunk takes a few tens of milliseconds
+const PLAYERS_PER_CHUNK = 50;
+
+// Same result as simulatePopulation, run in chunks so the page stays responsive; reports the share of players done
+export const simulatePopulationInChunks = async (
+  config: SimulationConfig,
+  profiles: PlayerProfiles,
+  population: PopulationConfig,
+  baseSeed: number,
+  onProgress?: (done: number) => void
+): Promise<PopulationResult> => {
+  const run = startPopulationRun(config, profiles, population, baseSeed);
+  for (let start = 0; start < population.size; start += PLAYERS_PER_CHUNK) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const end = Math.min(population.size, start + PLAYERS_PER_CHUNK);
+    for (let player = start; player < end; player++) run.simulatePlayer(player);
+    onProgress?.(end / population.size);
+  }
+  return run.summarize();
+};
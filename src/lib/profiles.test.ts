@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  isSameProfile,
+  loadStoredProfiles,
+  nextSeedOffset,
+  PlayerProfileDefinition,
+  playerProfiles,
+  PROFILES_STORAGE_KEY,
+  storeProfiles,
+  validateProfile
+} from './profiles';
+import { defaultTiers } from './tiers';
+
+const tierIds = defaultTiers.map((tier) => tier.id);
+const average = playerProfiles.average;
+const withDistribution = (distribution: Record<string, number>): PlayerProfileDefinition => ({ ...average, distribution });
+
+describe('validateProfile', () => {
+  it('accepts every built-in profile', () => {
+    Object.values(playerProfiles).forEach((profile) => expect(validateProfile(profile, tierIds)).toEqual([]));
+  });
+
+  it.each([
+    [{ first: 0.5, second: 0.3 }, 'Probabilities must sum to 100% (currently 80%)'],
+    [{ first: 0.7, second: 0.5 }, 'Probabilities must sum to 100% (currently 120%)'],
+    [{ first: 1.5, second: -0.5 }, 'first probability must be between 0% and 100%']
+  ])('rejects %j', (distribution, error) => {
+    expect(validateProfile(withDistribution(distribution), tierIds)).toContain(error);
+  });
+
+  it('allows rounding error in the sum', () => {
+    expect(validateProfile(withDistribution({ first: 0.1, second: 0.2, third: 0.7 }), tierIds)).toEqual([]);
+  });
+
+  it('only counts the given tiers', () => {
+    expect(validateProfile(withDistribution({ first: 1, retired: 0.5 }), tierIds)).toEqual([]);
+    expect(validateProfile(withDistribution({ retired: 1 }), tierIds)).toContain('Probabilities must sum to 100% (currently 0%)');
+  });
+
+  it('requires a name, an icon and a whole seed offset', () => {
+    expect(validateProfile({ ...average, name: ' ', icon: '', seedOffset: 1.5 }, tierIds)).toEqual([
+      'Name is required',
+      'Icon is required',
+      'Seed offset must be an integer'
+    ]);
+  });
+});
+
+describe('nextSeedOffset', () => {
+  it('takes the offset after the highest in use', () => {
+    expect(nextSeedOffset(playerProfiles)).toBe(5);
+    expect(nextSeedOffset({ a: { ...average, seedOffset: 9 }, b: { ...average, seedOffset: 2 } })).toBe(10);
+  });
+
+  it('starts at 1 with no profiles', () => {
+    expect(nextSeedOffset({})).toBe(1);
+  });
+});
+
+describe('isSameProfile', () => {
+  it('compares fields regardless of their order', () => {
+    const reversed = <T extends object>(value: T): T => Object.fromEntries(Object.entries(value).reverse()) as T;
+    expect(isSameProfile(average, reversed({ ...average, distribution: reversed(average.distribution) }))).toBe(true);
+  });
+
+  it('notices a tier present in only one distribution', () => {
+    expect(isSameProfile(average, withDistribution({ ...average.distribution, extra: 0 }))).toBe(false);
+  });
+
+  it('treats a missing profile as different', () => {
+    expect(isSameProfile(average, undefined)).toBe(false);
+    expect(isSameProfile(average, { ...average, rating: 1500 })).toBe(false);
+  });
+});
+
+describe('stored profiles', () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value)
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const store = (value: unknown) => storage.set(PROFILES_STORAGE_KEY, JSON.stringify(value));
+
+  it('reads back what was stored', () => {
+    storeProfiles({ tiers: defaultTiers, profiles: playerProfiles });
+    expect(loadStoredProfiles()).toEqual({ tiers: defaultTiers, profiles: playerProfiles });
+  });
+
+  it('keeps profiles keyed by custom tiers', () => {
+    const tiers = [defaultTiers[0], { ...defaultTiers[3], id: 'rest' }];
+    const profiles = { custom: withDistribution({ first: 0.4, rest: 0.6 }) };
+    store({ tiers, profiles });
+    expect(loadStoredProfiles()).toEqual({ tiers, profiles });
+  });
+
+  it('drops profiles that are malformed or don\'t fit the stored tiers', () => {
+    store({
+      tiers: defaultTiers,
+      profiles: {
+        average,
+        partial: { name: 'Partial', distribution: average.distribution },
+        unsummed: withDistribution({ first: 0.5 }),
+        unknownTier: withDistribution({ first: 0.5, retired: 0.5 })
+      }
+    });
+    expect(loadStoredProfiles()?.profiles).toEqual({ average });
+  });
+
+  it.each([
+    ['nothing stored', undefined],
+    ['invalid JSON', '{'],
+    ['a bare profile list from before tiers were stored', playerProfiles],
+    ['tiers that fail validation', { tiers: [], profiles: playerProfiles }],
+    ['malformed tiers', { tiers: [{ id: 'first' }], profiles: playerProfiles }],
+    ['no valid profiles', { tiers: defaultTiers, profiles: { broken: { name: 'Broken' } } }]
+  ])('returns null for %s', (_, value) => {
+    if (typeof value === 'string') storage.set(PROFILES_STORAGE_KEY, value);
+    else if (value !== undefined) store(value);
+    expect(loadStoredProfiles()).toBeNull();
+  });
+
+  it('falls back to the built-ins when storage is unavailable', () => {
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: () => { throw new Error('denied'); },
+        setItem: () => { throw new Error('denied'); }
+      }
+    });
+    expect(loadStoredProfiles()).toBeNull();
+    expect(() => storeProfiles({ tiers: defaultTiers, profiles: playerProfiles })).not.toThrow();
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  cutoffUnitLabels,
+  fitDistribution,
+  Placement,
+  PlacementDistribution,
+  PlacementTier,
+  rewardScalingLabels,
+  validateTiers
+} from './tiers';
+
+// Profile id; the built-in ids are 'wins-everything', 'exceptional', 'average' and 'looser'
+export type PlayerProfile = string;
+
+export interface PlayerProfileDefinition {
+  name: string;
+  icon: string;
+  description: string;
+  distribution: PlacementDistribution; // keyed by tier id
+  rating?: number; // when set, placements come from the skill-rating model instead of the distribution
+  color: string;
+  seedOffset: number; // mixed into the scenario seed so profiles don't share results
+}
+
+export type PlayerProfiles = Record<PlayerProfile, PlayerProfileDefinition>;
+
+export const playerProfiles: PlayerProfiles = {
+  'wins-everything': {
+    name: 'Wins Everything',
+    icon: '👑',
+    description: 'Elite player with exceptional skill',
+    distribution: { first: 1.0, second: 0.0, third: 0.0, participation: 0.0 },
+    color: 'bg-yellow-500 hover:bg-yellow-600 text-white',
+    seedOffset: 1
+  },
+  'exceptional': {
+    name: 'Exceptional',
+    icon: '⭐',
+    description: 'Above average competitive player',
+    distribution: { first: 0.50, second: 0.25, third: 0.25, participation: 0.0 },
+    color: 'bg-blue-500 hover:bg-blue-600 text-white',
+    seedOffset: 2
+  },
+  'average': {
+    name: 'Average',
+    icon: '🎮',
+    description: 'Typical casual player',
+    distribution: { first: 0.20, second: 0.20, third: 0.30, participation: 0.30 },
+    color: 'bg-green-500 hover:bg-green-600 text-white',
+    seedOffset: 3
+  },
+  'looser': {
+    name: 'Looser',
+    icon: '😅',
+    description: 'Struggling or new player',
+    distribution: { first: 0.0, second: 0.0, third: 0.0, participation: 1.0 },
+    color: 'bg-gray-500 hover:bg-gray-600 text-white',
+    seedOffset: 4
+  }
+};
+
+// Button styles offered in the profile editor
+export const profileColorOptions = [
+  'bg-yellow-500 hover:bg-yellow-600 text-white',
+  'bg-blue-500 hover:bg-blue-600 text-white',
+  'bg-green-500 hover:bg-green-600 text-white',
+  'bg-gray-500 hover:bg-gray-600 text-white',
+  'bg-red-500 hover:bg-red-600 text-white',
+  'bg-purple-500 hover:bg-purple-600 text-white',
+  'bg-pink-500 hover:bg-pink-600 text-white',
+  'bg-orange-500 hover:bg-orange-600 text-white',
+  'bg-teal-500 hover:bg-teal-600 text-white',
+  'bg-indigo-500 hover:bg-indigo-600 text-white'
+];
+
+const DISTRIBUTION_TOLERANCE = 1e-6;
+
+// Returns a list of problems with a profile definition against the given tier ids; empty when it is valid
+export const validateProfile = (profile: PlayerProfileDefinition, tierIds: Placement[]): string[] => {
+  const errors: string[] = [];
+  if (!profile.name.trim()) errors.push('Name is required');
+  if (!profile.icon.trim()) errors.push('Icon is required');
+  tierIds.forEach((tier) => {
+    const probability = profile.distribution[tier] ?? 0;
+    if (!Number.isFinite(probability) || probability < 0 || probability > 1) {
+      errors.push(`${tier} probability must be between 0% and 100%`);
+    }
+  });
+  const total = tierIds.reduce((sum, tier) => sum + (profile.distribution[tier] ?? 0), 0);
+  if (Math.abs(total - 1) > DISTRIBUTION_TOLERANCE) {
+    errors.push(`Probabilities must sum to 100% (currently ${Math.round(total * 1000) / 10}%)`);
+  }
+  if (profile.rating !== undefined && !Number.isFinite(profile.rating)) errors.push('Rating must be a number');
+  if (!Number.isInteger(profile.seedOffset)) errors.push('Seed offset must be an integer');
+  return errors;
+};
+
+// Next seed offset not used by any existing profile
+export const nextSeedOffset = (profiles: PlayerProfiles): number => {
+  return Math.max(0, ...Object.values(profiles).map((profile) => profile.seedOffset)) + 1;
+};
+
+// Whether two definitions describe the same profile, whatever order their fields were built in
+export const isSameProfile = (a: PlayerProfileDefinition, b: PlayerProfileDefinition | undefined): boolean => {
+  if (!b) return false;
+  const tierIds = new Set([...Object.keys(a.distribution), ...Object.keys(b.distribution)]);
+  return a.name === b.name
+    && a.icon === b.icon
+    && a.description === b.description
+    && a.color === b.color
+    && a.seedOffset === b.seedOffset
+    && a.rating === b.rating
+    && [...tierIds].every((tierId) => a.distribution[tierId] === b.distribution[tierId]);
+};
+
+// The same profiles with their distributions moved onto the given tiers
+export const fitProfilesToTiers = (profiles: PlayerProfiles, tiers: PlacementTier[]): PlayerProfiles => {
+  return Object.fromEntries(Object.entries(profiles).map(([id, profile]) => [
+    id,
+    { ...profile, distribution: fitDistribution(profile.distribution, tiers) }
+  ]));
+};
+
+// Profiles are stored with the tiers their distributions are keyed by, so custom tiers survive a reload with them
+export interface StoredProfiles {
+  tiers: PlacementTier[];
+  profiles: PlayerProfiles;
+}
+
+export const PROFILES_STORAGE_KEY = 'xp-calc:profiles';
+
+const isTier = (value: unknown): value is PlacementTier => {
+  if (typeof value !== 'object' || value === null) return false;
+  const tier = value as PlacementTier;
+  return typeof tier.id === 'string'
+    && typeof tier.name === 'string'
+    && typeof tier.icon === 'string'
+    && typeof tier.color === 'string'
+    && typeof tier.reward === 'object' && tier.reward !== null
+    && typeof tier.reward.points === 'number'
+    && typeof tier.reward.multiplier === 'number'
+    && tier.reward.scaling in rewardScalingLabels
+    && typeof tier.cutoff === 'object' && tier.cutoff !== null
+    && typeof tier.cutoff.value === 'number'
+    && tier.cutoff.unit in cutoffUnitLabels;
+};
+
+const isProfileDefinition = (value: unknown): value is PlayerProfileDefinition => {
+  if (typeof value !== 'object' || value === null) return false;
+  const profile = value as PlayerProfileDefinition;
+  return typeof profile.name === 'string'
+    && typeof profile.icon === 'string'
+    && typeof profile.description === 'string'
+    && typeof profile.color === 'string'
+    && typeof profile.seedOffset === 'number'
+    && (profile.rating === undefined || typeof profile.rating === 'number')
+    && typeof profile.distribution === 'object' && profile.distribution !== null
+    && Object.values(profile.distribution).every((probability) => typeof probability === 'number');
+};
+
+/**
+ * Profiles and tiers saved in localStorage, or null when nothing valid is
+ * stored. Profiles whose distributions don't fit the stored tiers are
+ * dropped; invalid tiers drop everything, since no distribution can be
+ * trusted without them.
+ */
+export const loadStoredProfiles = (): StoredProfiles | null => {
+  try {
+    const raw = window.localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null) return null;
+    const { tiers, profiles: storedProfiles } = parsed as { tiers?: unknown; profiles?: unknown };
+    if (!Array.isArray(tiers) || !tiers.every(isTier) || validateTiers(tiers).length > 0) return null;
+    if (typeof storedProfiles !== 'object' || storedProfiles === null) return null;
+
+    const tierIds = tiers.map((tier) => tier.id);
+    const profiles: PlayerProfiles = {};
+    Object.entries(storedProfiles).forEach(([id, profile]) => {
+      if (isProfileDefinition(profile)
+        && Object.keys(profile.distribution).every((tier) => tierIds.includes(tier))
+        && validateProfile(profile, tierIds).length === 0) {
+        profiles[id] = profile;
+      }
+    });
+    return Object.keys(profiles).length > 0 ? { tiers, profiles } : null;
+  } catch {
+    return null; // Corrupt or inaccessible storage falls back to the built-ins
+  }
+};
+
+export const storeProfiles = (stored: StoredProfiles): void => {
+  try {
+    window.localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage may be full or disabled; profiles still work for this session
+  }
+};
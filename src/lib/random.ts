@@ -0,0 +1,34 @@
+export type RandomSource = () => number;
+
+// mulberry32: small, fast 32-bit generator with good statistical quality for simulations
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Derive independent seeds for numbered runs from one base seed
+export const deriveSeed = (baseSeed: number, index: number): number => {
+  return (baseSeed ^ Math.imul(index + 1, 0x9E3779B1)) >>> 0;
+};
+
+// Default scenario seed, so a fresh page shows the same run every time
+export const DEFAULT_SEED = 20240101;
+
+// Largest seed the seed field accepts (seeds are unsigned 32-bit)
+export const MAX_SEED = 0xFFFFFFFF;
+
+// A fresh seed for the reroll button
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+/**
+ * One uniform value in [0, 1) for a keyed draw (e.g. one game), from the
+ * first output of a generator seeded by the base seed and key. Unlike a
+ * shared stream, each key's value stays put when other draws are added.
+ */
+export const keyedRandom = (baseSeed: number, key: number): number => createRandom(deriveSeed(baseSeed, key))();
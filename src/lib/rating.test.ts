@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { defaultOpponents, OpponentPool, rankProbabilities, ratingDistribution } from './rating';
+import { defaultTiers } from './tiers';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Every opponent exactly at the pool mean
+const fixedOpponents: OpponentPool = { mean: 1500, stdDev: 0 };
+
+describe('rankProbabilities', () => {
+  it.each([
+    [1500, 2, defaultOpponents],
+    [1800, 8, defaultOpponents],
+    [1200, 100, { mean: 1500, stdDev: 400 }],
+    [1500, 12, fixedOpponents]
+  ])('sums to 1 for a %i player in a lobby of %i', (rating, lobbySize, opponents) => {
+    const probabilities = rankProbabilities(rating, lobbySize, opponents);
+    expect(probabilities).toHaveLength(lobbySize);
+    expect(sum(probabilities)).toBeCloseTo(1, 12);
+    probabilities.forEach((probability) => expect(probability).toBeGreaterThanOrEqual(0));
+  });
+
+  it('puts a player alone in the lobby first', () => {
+    expect(rankProbabilities(1500, 1, defaultOpponents)).toEqual([1]);
+  });
+
+  it('spreads evenly over the places among equally rated players', () => {
+    rankProbabilities(1500, 6, fixedOpponents).forEach((probability) => expect(probability).toBeCloseTo(1 / 6, 4));
+  });
+
+  it('matches the Elo win chance head to head', () => {
+    const [win] = rankProbabilities(1700, 2, fixedOpponents);
+    expect(win).toBeCloseTo(1 / (1 + Math.pow(10, -200 / 400)), 4);
+  });
+
+  it('gives stronger players better odds of first place', () => {
+    const [weaker] = rankProbabilities(1400, 8, defaultOpponents);
+    const [stronger] = rankProbabilities(1600, 8, defaultOpponents);
+    expect(stronger).toBeGreaterThan(weaker);
+  });
+});
+
+describe('ratingDistribution', () => {
+  it('adds every place to exactly one tier', () => {
+    const distribution = ratingDistribution(defaultTiers, 1500, 8, fixedOpponents);
+    expect(sum(Object.values(distribution))).toBeCloseTo(1, 12);
+    expect(distribution.first).toBeCloseTo(1 / 8, 4);
+    expect(distribution.participation).toBeCloseTo(5 / 8, 4);
+  });
+});
@@ -0,0 +1,101 @@
+import { PlacementDistribution, PlacementTier, tierForRank } from './tiers';
+
+// Ratings of the opponents a player is matched against, as a normal distribution on the Elo scale
+export interface OpponentPool {
+  mean: number;
+  stdDev: number;
+}
+
+export const defaultOpponents: OpponentPool = { mean: 1500, stdDev: 200 };
+
+export const DEFAULT_RATING = 1500;
+
+const POOL_STEPS = 64; // Simpson's rule intervals over the opponent pool
+const POOL_RANGE = 4; // standard deviations either side of the mean
+const RACE_STEPS = 512; // samples over the player's own finishing time, clustered at both ends
+
+// Opponent strengths relative to the player (Elo: 400 points is a 10× strength ratio) with their pool weights
+const relativeStrengths = (rating: number, opponents: OpponentPool): { strength: number; weight: number }[] => {
+  if (opponents.stdDev <= 0) return [{ strength: Math.pow(10, (opponents.mean - rating) / 400), weight: 1 }];
+  const step = (2 * POOL_RANGE) / POOL_STEPS;
+  const nodes = Array.from({ length: POOL_STEPS + 1 }, (_, i) => {
+    const z = -POOL_RANGE + i * step;
+    const simpson = i === 0 || i === POOL_STEPS ? 1 : i % 2 === 1 ? 4 : 2;
+    return {
+      strength: Math.pow(10, (opponents.mean + z * opponents.stdDev - rating) / 400),
+      weight: simpson * Math.exp(-(z * z) / 2)
+    };
+  });
+  const total = nodes.reduce((sum, node) => sum + node.weight, 0);
+  return nodes.map((node) => ({ ...node, weight: node.weight / total }));
+};
+
+// Binomial probabilities of 0..n successes, in log space so large lobbies don't overflow
+const binomial = (n: number, p: number): number[] => {
+  if (p <= 0) return Array.from({ length: n + 1 }, (_, k) => (k === 0 ? 1 : 0));
+  if (p >= 1) return Array.from({ length: n + 1 }, (_, k) => (k === n ? 1 : 0));
+  const logP = Math.log(p);
+  const logQ = Math.log(1 - p);
+  const probabilities: number[] = [];
+  let logCoefficient = 0;
+  for (let k = 0; k <= n; k++) {
+    if (k > 0) logCoefficient += Math.log(n - k + 1) - Math.log(k);
+    probabilities.push(Math.exp(logCoefficient + k * logP + (n - k) * logQ));
+  }
+  return probabilities;
+};
+
+/**
+ * Probability of each finishing position (index 0 = 1st) in a lobby of
+ * `lobbySize` players under the Plackett-Luce model, with every opponent's
+ * rating drawn independently from the pool.
+ *
+ * Plackett-Luce ranks players by exponential finishing times with rates equal
+ * to their strengths. Given the player's own time, each opponent finishes
+ * ahead independently, so the number ahead is binomial; averaging over the
+ * player's time gives the rank distribution.
+ */
+export const rankProbabilities = (rating: number, lobbySize: number, opponents: OpponentPool): number[] => {
+  const others = Math.max(0, Math.round(lobbySize) - 1);
+  const pool = relativeStrengths(rating, opponents);
+  const probabilities = new Array<number>(others + 1).fill(0);
+  for (let i = 0; i < RACE_STEPS; i++) {
+    // Quantile of the player's finishing time (scaled by its own strength), and the share of the range it stands for
+    const angle = (Math.PI * (i + 0.5)) / RACE_STEPS;
+    const quantile = (1 - Math.cos(angle)) / 2;
+    const share = (Math.PI / (2 * RACE_STEPS)) * Math.sin(angle);
+    const time = -Math.log(1 - quantile);
+    const ahead = pool.reduce((sum, { strength, weight }) => sum + weight * (1 - Math.exp(-strength * time)), 0);
+    binomial(others, ahead).forEach((probability, k) => {
+      probabilities[k] += probability * share;
+    });
+  }
+  // Remove the small quadrature error so the positions sum to exactly 1
+  const total = probabilities.reduce((sum, probability) => sum + probability, 0);
+  return probabilities.map((probability) => probability / total);
+};
+
+// Population runs ask for the same few distributions thousands of times
+const distributionCache = new Map<string, PlacementDistribution>();
+const DISTRIBUTION_CACHE_LIMIT = 256;
+
+// Placement distribution over the tiers for a player of the given rating in one lobby size
+export const ratingDistribution = (
+  tiers: PlacementTier[],
+  rating: number,
+  lobbySize: number,
+  opponents: OpponentPool
+): PlacementDistribution => {
+  const size = Math.max(1, Math.round(lobbySize));
+  const key = JSON.stringify([tiers.map((tier) => [tier.id, tier.cutoff]), rating, size, opponents.mean, opponents.stdDev]);
+  const cached = distributionCache.get(key);
+  if (cached) return cached;
+
+  const distribution: PlacementDistribution = Object.fromEntries(tiers.map((tier) => [tier.id, 0]));
+  rankProbabilities(rating, size, opponents).forEach((probability, index) => {
+    distribution[tierForRank(tiers, index + 1, size).id] += probability;
+  });
+  if (distributionCache.size >= DISTRIBUTION_CACHE_LIMIT) distributionCache.clear();
+  distributionCache.set(key, distribution);
+  return distribution;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { churnDay, defaultRetention, parseRetentionCSV, RetentionCurveError, survivalCurve } from './retention';
+
+describe('parseRetentionCSV', () => {
+  it('reads day,retained rows as shares, with or without a header', () => {
+    expect(parseRetentionCSV('day,retained\n1,40\n2,30')).toEqual([0.4, 0.3]);
+    expect(parseRetentionCSV('1,40\n2,30')).toEqual([0.4, 0.3]);
+  });
+
+  it('interpolates days missing between rows', () => {
+    expect(parseRetentionCSV('1,40\n3,20')).toEqual([0.4, 0.3, 0.2]);
+  });
+
+  it('rejects rows that are not two numbers', () => {
+    expect(() => parseRetentionCSV('1,40\n2,thirty')).toThrow(/Line 2 is not a day,retained row/);
+    expect(() => parseRetentionCSV('1,40,5')).toThrow(RetentionCurveError);
+  });
+
+  it('rejects retention outside 0–100% and days out of order', () => {
+    expect(() => parseRetentionCSV('1,140')).toThrow(/between 0 and 100%/);
+    expect(() => parseRetentionCSV('2,40\n2,30')).toThrow(/increasing order/);
+  });
+
+  it('rejects empty files', () => {
+    expect(() => parseRetentionCSV('')).toThrow(/no data rows/);
+    expect(() => parseRetentionCSV('day,retained')).toThrow(/no data rows/);
+  });
+});
+
+describe('survivalCurve', () => {
+  const retention = { ...defaultRetention, enabled: true };
+
+  it('starts with everyone and passes through the D1 to D90 points', () => {
+    const survival = survivalCurve(retention, 365);
+    expect(survival).toHaveLength(365);
+    expect(survival[0]).toBe(1);
+    expect(survival[1]).toBeCloseTo(retention.d1, 12);
+    expect(survival[7]).toBeCloseTo(retention.d7, 12);
+    expect(survival[30]).toBeCloseTo(retention.d30, 12);
+    expect(survival[90]).toBeCloseTo(retention.d90, 12);
+  });
+
+  it('keeps losing players at the D30 to D90 rate after D90', () => {
+    const survival = survivalCurve(retention, 365);
+    expect(survival[150]).toBeCloseTo((retention.d90 * retention.d90) / retention.d30, 12);
+    survival.slice(1).forEach((share, day) => expect(share).toBeLessThanOrEqual(survival[day]));
+  });
+
+  it('holds the last value of an imported curve and never lets it rise', () => {
+    expect(survivalCurve({ ...retention, curve: [0.5, 0.6, 0.3] }, 6)).toEqual([1, 0.5, 0.5, 0.3, 0.3, 0.3]);
+  });
+});
+
+describe('churnDay', () => {
+  const survival = [1, 0.4, 0.2, 0.2];
+
+  it.each([
+    [0.5, 1],
+    [0.4, 1],
+    [0.3, 2],
+    [0.2, 2]
+  ])('stops a player rolling %f on day index %i', (roll, day) => {
+    expect(churnDay(survival, roll)).toBe(day);
+  });
+
+  it('keeps a player who outlasts the curve all season', () => {
+    expect(churnDay(survival, 0.1)).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { readNumberRows } from './csv';
+
+// Share of a starting cohort still playing after 1, 7, 30 and 90 days, or an imported day-by-day curve
+export interface RetentionModel {
+  enabled: boolean;
+  d1: number;
+  d7: number;
+  d30: number;
+  d90: number;
+  curve: number[] | null; // imported share still playing by day (index 0 = day 1); replaces the D1–D90 points
+}
+
+export const defaultRetention: RetentionModel = {
+  enabled: false,
+  d1: 0.4,
+  d7: 0.2,
+  d30: 0.1,
+  d90: 0.05,
+  curve: null
+};
+
+export const RETENTION_DAYS = ['d1', 'd7', 'd30', 'd90'] as const;
+
+export const validateRetention = (retention: RetentionModel): string[] => {
+  const errors: string[] = [];
+  const points = RETENTION_DAYS.map((key) => retention[key]);
+  if (points.some((share) => !(share >= 0 && share <= 1))) errors.push('Retention must be between 0% and 100%');
+  if (points.some((share, i) => i > 0 && share > points[i - 1])) errors.push('Retention must not rise from D1 to D90');
+  return errors;
+};
+
+const anchors = (retention: RetentionModel): [number, number][] => [
+  [0, 1],
+  [1, retention.d1],
+  [7, retention.d7],
+  [30, retention.d30],
+  [90, retention.d90]
+];
+
+// Interpolate between retention points in log space, where churn is roughly a constant daily rate
+const logInterpolate = (from: number, to: number, t: number): number => {
+  if (from <= 0 || to <= 0) return from + (to - from) * t;
+  return Math.exp(Math.log(from) + (Math.log(to) - Math.log(from)) * t);
+};
+
+/**
+ * Share of players still playing on each season day (index 0 = the first
+ * day, when everyone plays). After D90 the D30–D90 daily churn rate carries
+ * on; an imported curve holds its last value instead.
+ */
+export const survivalCurve = (retention: RetentionModel, seasonLength: number): number[] => {
+  const survival: number[] = [1];
+  const points = anchors(retention);
+  for (let day = 1; day < seasonLength; day++) {
+    let share: number;
+    if (retention.curve) {
+      share = retention.curve[Math.min(day, retention.curve.length) - 1];
+    } else if (day <= 90) {
+      const next = points.findIndex(([anchorDay]) => anchorDay >= day);
+      const [fromDay, fromShare] = points[next - 1];
+      const [toDay, toShare] = points[next];
+      share = logInterpolate(fromShare, toShare, (day - fromDay) / (toDay - fromDay));
+    } else {
+      share = logInterpolate(retention.d30, retention.d90, (day - 30) / 60);
+    }
+    survival.push(Math.min(survival[day - 1], Math.max(0, share)));
+  }
+  return survival;
+};
+
+// Index of the first day a player no longer plays for a uniform roll in [0, 1), or null if they play all season
+export const churnDay = (survival: number[], roll: number): number | null => {
+  const day = survival.findIndex((share) => share <= roll);
+  return day === -1 ? null : day;
+};
+
+export class RetentionCurveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetentionCurveError';
+  }
+}
+
+/**
+ * Reads a retention curve from CSV `day,retained` rows, with retention as a
+ * percentage of the starting cohort. A header row is skipped and days missing
+ * between rows are interpolated.
+ */
+export const parseRetentionCSV = (text: string): number[] => {
+  const rows = readNumberRows(text);
+  if (rows.length === 0) throw new RetentionCurveError('The file has no data rows');
+
+  const curve: number[] = [];
+  rows.forEach(({ text: row, line, cells }) => {
+    if (cells.length !== 2 || cells.some((cell) => !Number.isFinite(cell))) {
+      throw new RetentionCurveError(`Line ${line} is not a day,retained row: "${row}"`);
+    }
+    const [day, percent] = cells;
+    if (!Number.isInteger(day) || day < curve.length + 1) {
+      throw new RetentionCurveError(`Line ${line}: days must be whole numbers from 1 in increasing order`);
+    }
+    if (percent < 0 || percent > 100) throw new RetentionCurveError(`Line ${line}: retention must be between 0 and 100%`);
+    const share = percent / 100;
+    const previousDay = curve.length;
+    const previousShare = curve[previousDay - 1] ?? 1;
+    while (curve.length < day - 1) {
+      curve.push(previousShare + ((share - previousShare) * (curve.length + 1 - previousDay)) / (day - previousDay));
+    }
+    curve.push(share);
+  });
+  return curve.map((share) => Math.round(share * 10000) / 10000);
+};
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { defaultActivity } from './activity';
+import { horizonOptions } from './analytical';
+import { defaultCalendar } from './calendar';
+import { defaultPacingThresholds } from './curveHealth';
+import { curveFamilies } from './curves';
+import { defaultGameTypes } from './gameTypes';
+import { defaultMilestones } from './milestones';
+import { defaultModifiers } from './modifiers';
+import { DEFAULT_MONTE_CARLO_RUNS } from './monteCarlo';
+import { defaultPopulation } from './population';
+import { playerProfiles } from './profiles';
+import { DEFAULT_SEED } from './random';
+import { defaultOpponents } from './rating';
+import {
+  decodeScenarioHash,
+  encodeScenarioHash,
+  parseScenario,
+  parseScenarioFile,
+  Scenario,
+  SCENARIO_VERSION,
+  ScenarioError,
+  serializeScenarioFile,
+  validateScenario
+} from './scenario';
+import { defaultLevelTargets } from './timeToLevel';
+import { defaultTiers } from './tiers';
+
+// The page's scenario on first load
+const defaultScenario: Scenario = {
+  version: SCENARIO_VERSION,
+  profile: 'average',
+  profiles: playerProfiles,
+  tiers: defaultTiers,
+  gameTypes: defaultGameTypes,
+  curve: curveFamilies.quadratic.defaults,
+  calendar: defaultCalendar,
+  activity: defaultActivity,
+  opponents: defaultOpponents,
+  population: defaultPopulation,
+  modifiers: defaultModifiers,
+  liveOps: [],
+  milestones: defaultMilestones,
+  levelTargets: defaultLevelTargets,
+  seed: DEFAULT_SEED,
+  mode: 'stochastic',
+  pacingThresholds: defaultPacingThresholds,
+  analyticalSeasons: 1,
+  monteCarloRuns: 1000,
+  showLevelList: false
+};
+
+describe('scenario round trip', () => {
+  it('loads the default scenario back from a link', () => {
+    expect(decodeScenarioHash(encodeScenarioHash(defaultScenario))).toEqual(defaultScenario);
+  });
+
+  it('loads the default scenario back from a file', () => {
+    expect(parseScenarioFile(serializeScenarioFile(defaultScenario))).toEqual(defaultScenario);
+  });
+
+  it('keeps custom game types, events and milestones', () => {
+    const scenario: Scenario = {
+      ...defaultScenario,
+      gameTypes: [...defaultGameTypes, { ...defaultGameTypes[0], id: 'blitz', name: 'Blitz', durationDays: 0.5, seedOffset: 3 }],
+      liveOps: [{
+        name: 'Blitz Week',
+        startDate: '2025-03-01',
+        endDate: '2025-03-07',
+        xpMultiplier: 1.5,
+        extraGames: 2,
+        gameType: 'blitz',
+        color: '#8b5cf6'
+      }],
+      milestones: [{ level: 5, reward: 'Emote ✨', repeatEvery: 5 }]
+    };
+    expect(decodeScenarioHash(encodeScenarioHash(scenario))).toEqual(scenario);
+  });
+});
+
+describe('validateScenario', () => {
+  it('accepts the default scenario', () => {
+    expect(validateScenario(defaultScenario)).toEqual([]);
+  });
+
+  it.each([
+    ['an unnamed game type', { gameTypes: [{ ...defaultGameTypes[0], name: '' }] }],
+    ['an empty population', { population: { ...defaultPopulation, size: 0 } }],
+    ['a milestone past the level cap', { milestones: [{ level: 600, reward: 'Crown', repeatEvery: 0 }] }],
+    ['extra games of a missing type', {
+      liveOps: [{ name: 'Cup', startDate: '2025-02-01', endDate: '2025-02-02', xpMultiplier: 1, extraGames: 1, gameType: 'gone', color: '#000000' }]
+    }],
+    ['a value JSON cannot hold', { opponents: { mean: NaN, stdDev: 100 } }],
+    ['a fractional burst threshold', { pacingThresholds: { ...defaultPacingThresholds, burstLevels: 2.5 } }],
+    ['a horizon the page does not offer', { analyticalSeasons: 4 }],
+    ['a run count the page does not offer', { monteCarloRuns: 750 }]
+  ])('reports %s', (_, changes) => {
+    expect(validateScenario({ ...defaultScenario, ...changes })).toHaveLength(1);
+  });
+});
+
+// A scenario as version 1 links and files wrote it: no ratings, tiers, game types or later sections
+const without = (record: object, key: string): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(record).filter(([field]) => field !== key));
+};
+const legacyCurve = { family: 'quadratic', a: 0.05, b: 2, c: 10, multiplier: 0.5 };
+const v1 = {
+  version: 1,
+  profile: 'exceptional',
+  profiles: Object.fromEntries(Object.entries(playerProfiles).map(([id, profile]) => [id, without(profile, 'rating')])),
+  schedule: { dailyGames: 4, weeklyGames: 2, monthlyGames: 1 },
+  placementPoints: { first: 6, second: 4, third: 2, participation: 1 },
+  curve: legacyCurve,
+  showLevelList: true
+};
+
+describe('parseScenario migrations', () => {
+  it('loads a version 1 scenario as the current version', () => {
+    const scenario = parseScenario(v1);
+    expect(scenario.version).toBe(SCENARIO_VERSION);
+    expect(scenario.profile).toBe('exceptional');
+    expect(scenario.curve).toEqual(legacyCurve);
+    expect(scenario.showLevelList).toBe(true);
+    expect(validateScenario(scenario)).toEqual([]);
+  });
+
+  it('moves the version 1 schedule and points onto the built-in game types', () => {
+    const { tiers, gameTypes } = parseScenario(v1);
+    expect(tiers).toEqual(defaultTiers);
+    expect(gameTypes.map((type) => [type.id, type.gamesPerCycle])).toEqual([['daily', 4], ['weekly', 2], ['monthly', 1]]);
+    gameTypes.forEach((type) => expect(type.rewards).toEqual({
+      first: { points: 6, scaling: 'perDay', multiplier: 1 },
+      second: { points: 4, scaling: 'perDay', multiplier: 1 },
+      third: { points: 2, scaling: 'perDay', multiplier: 1 },
+      participation: { points: 1, scaling: 'flat', multiplier: 1 }
+    }));
+  });
+
+  it('fills in everything version 1 lacked with the page defaults', () => {
+    expect(parseScenario(v1)).toMatchObject({
+      calendar: defaultCalendar,
+      activity: defaultActivity,
+      opponents: defaultOpponents,
+      population: defaultPopulation,
+      modifiers: defaultModifiers,
+      liveOps: [],
+      milestones: defaultMilestones,
+      levelTargets: defaultLevelTargets,
+      seed: DEFAULT_SEED,
+      mode: 'stochastic',
+      pacingThresholds: defaultPacingThresholds,
+      analyticalSeasons: horizonOptions[0],
+      monteCarloRuns: DEFAULT_MONTE_CARLO_RUNS
+    });
+  });
+
+  it('weighs custom profiles evenly in the population when none has a default weight', () => {
+    const custom = { ...v1, profile: 'custom', profiles: { custom: v1.profiles.average } };
+    expect(parseScenario(custom).population.profileWeights).toEqual({ custom: 1 });
+  });
+
+  it('rejects a version 1 schedule the game types cannot hold', () => {
+    expect(() => parseScenario({ ...v1, schedule: { ...v1.schedule, dailyGames: 5000 } })).toThrow(ScenarioError);
+  });
+
+  it('rejects repeated game type seed offsets', () => {
+    const gameTypes = defaultGameTypes.map((type) => ({ ...type, seedOffset: 0 }));
+    expect(() => parseScenario({ ...defaultScenario, gameTypes })).toThrow(/seedOffset must be unique/);
+  });
+
+  it('rejects versions newer than this tool', () => {
+    expect(() => parseScenario({ ...defaultScenario, version: SCENARIO_VERSION + 1 })).toThrow(/newer than this tool supports/);
+  });
+});
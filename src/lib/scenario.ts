@@ -0,0 +1,633 @@
+import { ActivityModel, defaultActivity } from './activity';
+import { horizonOptions } from './analytical';
+import { CalendarConfig, defaultCalendar, parseISODate } from './calendar';
+import { defaultPacingThresholds, PacingThresholds, validatePacingThresholds } from './curveHealth';
+import { curveFamilies, CurveDefinition, CurveFamily, SimpleCurve, simpleCurveFamilies } from './curves';
+import {
+  AnnotationStyle,
+  annotationStyles,
+  CadenceUnit,
+  cadenceUnits,
+  defaultGameTypes,
+  GameTypeDefinition,
+  RewardTable,
+  validateGameType
+} from './gameTypes';
+import { LiveOpsEvent, validateLiveOpsEvent } from './liveOps';
+import { defaultMilestones, LevelMilestone, validateMilestone } from './milestones';
+import { defaultModifiers, validateModifiers, XPModifiers } from './modifiers';
+import { DEFAULT_MONTE_CARLO_RUNS, monteCarloRunOptions } from './monteCarlo';
+import { defaultPopulation, PopulationConfig, validatePopulation } from './population';
+import { PlayerProfile, PlayerProfiles, validateProfile } from './profiles';
+import { defaultOpponents, OpponentPool } from './rating';
+import { DEFAULT_SEED, MAX_SEED } from './random';
+import { RetentionModel, validateRetention } from './retention';
+import { SimulationMode, simulationModeLabels } from './simulation';
+import { defaultLevelTargets, LevelTarget, validateLevelTarget } from './timeToLevel';
+import {
+  cutoffUnitLabels,
+  defaultTiers,
+  PlacementDistribution,
+  PlacementReward,
+  PlacementTier,
+  RewardScaling,
+  rewardScalingLabels,
+  TierCutoff,
+  validateTiers
+} from './tiers';
+
+// Version 1 links and files held the profiles, a daily/weekly/monthly game count, one table of points per placement,
+// the curve and the level list toggle; version 2 carries everything the page can edit
+export const SCENARIO_VERSION = 2;
+
+export interface Scenario {
+  version: number;
+  profile: PlayerProfile; // selected profile id
+  profiles: PlayerProfiles; // definitions, so custom profiles travel with the scenario
+  tiers: PlacementTier[]; // best first; version 1 always used 1st/2nd/3rd/participation
+  gameTypes: GameTypeDefinition[]; // replaced the fixed daily/weekly/monthly schedule of version 1
+  curve: CurveDefinition;
+  calendar: CalendarConfig;
+  activity: ActivityModel;
+  opponents: OpponentPool;
+  population: PopulationConfig;
+  modifiers: XPModifiers;
+  liveOps: LiveOpsEvent[];
+  milestones: LevelMilestone[];
+  levelTargets: LevelTarget[];
+  seed: number;
+  mode: SimulationMode;
+  pacingThresholds: PacingThresholds;
+  analyticalSeasons: number; // mean ± σ horizon
+  monteCarloRuns: number;
+  showLevelList: boolean;
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectRecord = (value: unknown, path: string): UnknownRecord => {
+  if (!isRecord(value)) throw new ScenarioError(`${path} must be an object`);
+  return value;
+};
+
+const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new ScenarioError(`${path} must be a number`);
+  return value;
+};
+
+const expectNonNegative = (value: unknown, path: string): number => {
+  const number = expectNumber(value, path);
+  if (number < 0) throw new ScenarioError(`${path} must not be negative`);
+  return number;
+};
+
+const expectOption = (value: unknown, path: string, options: number[]): number => {
+  const option = expectNumber(value, path);
+  if (!options.includes(option)) throw new ScenarioError(`${path} must be one of ${options.join(', ')}`);
+  return option;
+};
+
+const parseSimpleCurve = (value: unknown, path: string): SimpleCurve => {
+  const curve = expectRecord(value, path);
+  if (!(simpleCurveFamilies as unknown[]).includes(curve.family)) {
+    throw new ScenarioError(`${path}.family must be one of ${simpleCurveFamilies.join(', ')}`);
+  }
+  const family = curve.family as SimpleCurve['family'];
+  const parsed: UnknownRecord = { family };
+  curveFamilies[family].params.forEach((param) => {
+    parsed[param.key] = expectNumber(curve[param.key], `${path}.${param.key}`);
+  });
+  return parsed as unknown as SimpleCurve;
+};
+
+export const parseCurve = (value: unknown, path = 'curve'): CurveDefinition => {
+  const curve = expectRecord(value, path);
+  const family = curve.family as CurveFamily;
+  if (family === 'piecewise') {
+    if (!Array.isArray(curve.segments) || curve.segments.length === 0) {
+      throw new ScenarioError(`${path}.segments must be a non-empty array`);
+    }
+    return {
+      family,
+      segments: curve.segments.map((segment, i) => {
+        const record = expectRecord(segment, `${path}.segments[${i}]`);
+        return {
+          fromLevel: expectNumber(record.fromLevel, `${path}.segments[${i}].fromLevel`),
+          curve: parseSimpleCurve(record.curve, `${path}.segments[${i}].curve`)
+        };
+      })
+    };
+  }
+  if (family === 'table') {
+    if (!Array.isArray(curve.values)) throw new ScenarioError(`${path}.values must be an array`);
+    return { family, values: curve.values.map((xp, i) => expectNumber(xp, `${path}.values[${i}]`)) };
+  }
+  return parseSimpleCurve(curve, path);
+};
+
+const parseReward = (value: unknown, path: string): PlacementReward => {
+  const reward = expectRecord(value, path);
+  if (typeof reward.scaling !== 'string' || !(reward.scaling in rewardScalingLabels)) {
+    throw new ScenarioError(`${path}.scaling must be one of ${Object.keys(rewardScalingLabels).join(', ')}`);
+  }
+  return {
+    points: expectNumber(reward.points, `${path}.points`),
+    scaling: reward.scaling as RewardScaling,
+    multiplier: expectNumber(reward.multiplier, `${path}.multiplier`)
+  };
+};
+
+const parseCutoff = (value: unknown, path: string): TierCutoff => {
+  const cutoff = expectRecord(value, path);
+  if (typeof cutoff.unit !== 'string' || !(cutoff.unit in cutoffUnitLabels)) {
+    throw new ScenarioError(`${path}.unit must be one of ${Object.keys(cutoffUnitLabels).join(', ')}`);
+  }
+  return { unit: cutoff.unit as TierCutoff['unit'], value: expectNumber(cutoff.value, `${path}.value`) };
+};
+
+const parseTiers = (value: unknown): PlacementTier[] => {
+  if (!Array.isArray(value)) throw new ScenarioError('tiers must be an array');
+  const tiers = value.map((raw, i) => {
+    const path = `tiers[${i}]`;
+    const tier = expectRecord(raw, path);
+    ['id', 'name', 'icon', 'color'].forEach((key) => {
+      if (typeof tier[key] !== 'string') throw new ScenarioError(`${path}.${key} must be a string`);
+    });
+    return {
+      id: tier.id as string,
+      name: tier.name as string,
+      icon: tier.icon as string,
+      color: tier.color as string,
+      reward: parseReward(tier.reward, `${path}.reward`),
+      cutoff: parseCutoff(tier.cutoff, `${path}.cutoff`)
+    };
+  });
+  const [problem] = validateTiers(tiers);
+  if (problem) throw new ScenarioError(`tiers: ${problem}`);
+  return tiers;
+};
+
+const parseDistribution = (value: unknown, path: string, tierIds: string[]): PlacementDistribution => {
+  const record = expectRecord(value, path);
+  const distribution: PlacementDistribution = {};
+  Object.entries(record).forEach(([tier, probability]) => {
+    if (!tierIds.includes(tier)) throw new ScenarioError(`${path}.${tier} is not one of the scenario's tiers`);
+    distribution[tier] = expectNumber(probability, `${path}.${tier}`);
+  });
+  return distribution;
+};
+
+const parseProfiles = (value: unknown, tierIds: string[]): PlayerProfiles => {
+  const record = expectRecord(value, 'profiles');
+  const profiles: PlayerProfiles = {};
+  Object.entries(record).forEach(([id, raw]) => {
+    const path = `profiles.${id}`;
+    const profile = expectRecord(raw, path);
+    ['name', 'icon', 'description', 'color'].forEach((key) => {
+      if (typeof profile[key] !== 'string') throw new ScenarioError(`${path}.${key} must be a string`);
+    });
+    profiles[id] = {
+      name: profile.name as string,
+      icon: profile.icon as string,
+      description: profile.description as string,
+      color: profile.color as string,
+      seedOffset: expectNumber(profile.seedOffset, `${path}.seedOffset`),
+      distribution: parseDistribution(profile.distribution, `${path}.distribution`, tierIds),
+      ...(profile.rating === undefined ? {} : { rating: expectNumber(profile.rating, `${path}.rating`) })
+    };
+    const [problem] = validateProfile(profiles[id], tierIds);
+    if (problem) throw new ScenarioError(`${path}: ${problem}`);
+  });
+  if (Object.keys(profiles).length === 0) throw new ScenarioError('profiles must contain at least one profile');
+  return profiles;
+};
+
+const parseCalendar = (value: unknown): CalendarConfig => {
+  const calendar = expectRecord(value, 'calendar');
+  if (typeof calendar.startDate !== 'string' || !parseISODate(calendar.startDate)) {
+    throw new ScenarioError('calendar.startDate must be a date in YYYY-MM-DD form');
+  }
+  const weeklyEndDay = expectNumber(calendar.weeklyEndDay, 'calendar.weeklyEndDay');
+  if (!Number.isInteger(weeklyEndDay) || weeklyEndDay < 0 || weeklyEndDay > 6) {
+    throw new ScenarioError('calendar.weeklyEndDay must be a whole number from 0 (Sunday) to 6 (Saturday)');
+  }
+  return { startDate: calendar.startDate, weeklyEndDay };
+};
+
+const expectNumberList = (value: unknown, path: string, length?: number): number[] => {
+  if (!Array.isArray(value) || (length !== undefined && value.length !== length)) {
+    throw new ScenarioError(`${path} must be an array${length !== undefined ? ` of ${length} numbers` : ''}`);
+  }
+  return value.map((item, i) => expectNonNegative(item, `${path}[${i}]`));
+};
+
+const parseActivity = (value: unknown): ActivityModel => {
+  const activity = expectRecord(value, 'activity');
+  const weekdayParticipation = expectNumberList(activity.weekdayParticipation, 'activity.weekdayParticipation', 7);
+  if (weekdayParticipation.some((rate) => rate > 1)) {
+    throw new ScenarioError('activity.weekdayParticipation values must be between 0 and 1');
+  }
+  const dailyCurve = activity.dailyCurve === null ? null : expectNumberList(activity.dailyCurve, 'activity.dailyCurve');
+  if (dailyCurve?.length === 0) throw new ScenarioError('activity.dailyCurve must not be empty');
+  return {
+    seasonality: expectNumberList(activity.seasonality, 'activity.seasonality', 12),
+    weekdayParticipation,
+    dailyCurve
+  };
+};
+
+const parseOpponents = (value: unknown): OpponentPool => {
+  const opponents = expectRecord(value, 'opponents');
+  return {
+    mean: expectNumber(opponents.mean, 'opponents.mean'),
+    stdDev: expectNonNegative(opponents.stdDev, 'opponents.stdDev')
+  };
+};
+
+const parseRetention = (value: unknown): RetentionModel => {
+  const retention = expectRecord(value, 'population.retention');
+  const curve = retention.curve === null ? null : expectNumberList(retention.curve, 'population.retention.curve');
+  if (curve?.length === 0) throw new ScenarioError('population.retention.curve must not be empty');
+  if (curve?.some((share) => share > 1)) throw new ScenarioError('population.retention.curve values must be between 0 and 1');
+  const parsed: RetentionModel = {
+    enabled: retention.enabled === true,
+    d1: expectNumber(retention.d1, 'population.retention.d1'),
+    d7: expectNumber(retention.d7, 'population.retention.d7'),
+    d30: expectNumber(retention.d30, 'population.retention.d30'),
+    d90: expectNumber(retention.d90, 'population.retention.d90'),
+    curve
+  };
+  const [problem] = validateRetention(parsed);
+  if (problem) throw new ScenarioError(`population.retention: ${problem}`);
+  return parsed;
+};
+
+const parseModifiers = (value: unknown): XPModifiers => {
+  const modifiers = expectRecord(value, 'modifiers');
+  const winStreak = expectRecord(modifiers.winStreak, 'modifiers.winStreak');
+  const firstWin = expectRecord(modifiers.firstWin, 'modifiers.firstWin');
+  const dailyLogin = expectRecord(modifiers.dailyLogin, 'modifiers.dailyLogin');
+  if (!Array.isArray(modifiers.boosters)) throw new ScenarioError('modifiers.boosters must be an array');
+  const parsed: XPModifiers = {
+    winStreak: {
+      enabled: winStreak.enabled === true,
+      bonusPerWin: expectNumber(winStreak.bonusPerWin, 'modifiers.winStreak.bonusPerWin'),
+      maxBonus: expectNumber(winStreak.maxBonus, 'modifiers.winStreak.maxBonus')
+    },
+    firstWin: { enabled: firstWin.enabled === true, xp: expectNumber(firstWin.xp, 'modifiers.firstWin.xp') },
+    dailyLogin: { enabled: dailyLogin.enabled === true, xp: expectNumber(dailyLogin.xp, 'modifiers.dailyLogin.xp') },
+    boosters: modifiers.boosters.map((raw, i) => {
+      const path = `modifiers.boosters[${i}]`;
+      const booster = expectRecord(raw, path);
+      if (typeof booster.name !== 'string') throw new ScenarioError(`${path}.name must be a string`);
+      return {
+        name: booster.name,
+        enabled: booster.enabled === true,
+        multiplier: expectNumber(booster.multiplier, `${path}.multiplier`),
+        startDay: expectNumber(booster.startDay, `${path}.startDay`),
+        durationDays: expectNumber(booster.durationDays, `${path}.durationDays`),
+        repeatEveryDays: expectNumber(booster.repeatEveryDays, `${path}.repeatEveryDays`)
+      };
+    })
+  };
+  const [problem] = validateModifiers(parsed);
+  if (problem) throw new ScenarioError(`modifiers: ${problem}`);
+  return parsed;
+};
+
+const parseLiveOps = (value: unknown, gameTypes: GameTypeDefinition[]): LiveOpsEvent[] => {
+  if (!Array.isArray(value)) throw new ScenarioError('liveOps must be an array');
+  return value.map((raw, i) => {
+    const path = `liveOps[${i}]`;
+    const event = expectRecord(raw, path);
+    (['name', 'startDate', 'endDate', 'gameType', 'color'] as const).forEach((key) => {
+      if (typeof event[key] !== 'string') throw new ScenarioError(`${path}.${key} must be a string`);
+    });
+    const parsed: LiveOpsEvent = {
+      name: event.name as string,
+      startDate: event.startDate as string,
+      endDate: event.endDate as string,
+      xpMultiplier: expectNumber(event.xpMultiplier, `${path}.xpMultiplier`),
+      extraGames: expectNumber(event.extraGames, `${path}.extraGames`),
+      gameType: event.gameType as string,
+      color: event.color as string
+    };
+    const [problem] = validateLiveOpsEvent(parsed, gameTypes);
+    if (problem) throw new ScenarioError(`${path}: ${problem}`);
+    return parsed;
+  });
+};
+
+const parseMilestones = (value: unknown): LevelMilestone[] => {
+  if (!Array.isArray(value)) throw new ScenarioError('milestones must be an array');
+  return value.map((raw, i) => {
+    const path = `milestones[${i}]`;
+    const milestone = expectRecord(raw, path);
+    if (typeof milestone.reward !== 'string') throw new ScenarioError(`${path}.reward must be a string`);
+    const parsed: LevelMilestone = {
+      level: expectNumber(milestone.level, `${path}.level`),
+      reward: milestone.reward,
+      repeatEvery: expectNumber(milestone.repeatEvery, `${path}.repeatEvery`)
+    };
+    const [problem] = validateMilestone(parsed);
+    if (problem) throw new ScenarioError(`${path}: ${problem}`);
+    return parsed;
+  });
+};
+
+const parseLevelTargets = (value: unknown): LevelTarget[] => {
+  if (!Array.isArray(value)) throw new ScenarioError('levelTargets must be an array');
+  return value.map((raw, i) => {
+    const path = `levelTargets[${i}]`;
+    const target = expectRecord(raw, path);
+    const parsed: LevelTarget = {
+      level: expectNumber(target.level, `${path}.level`),
+      earliest: target.earliest === null ? null : expectNumber(target.earliest, `${path}.earliest`),
+      latest: target.latest === null ? null : expectNumber(target.latest, `${path}.latest`)
+    };
+    const [problem] = validateLevelTarget(parsed);
+    if (problem) throw new ScenarioError(`${path}: ${problem}`);
+    return parsed;
+  });
+};
+
+const parseSeed = (value: unknown): number => {
+  const seed = expectNumber(value, 'seed');
+  if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) throw new ScenarioError(`seed must be a whole number from 0 to ${MAX_SEED}`);
+  return seed;
+};
+
+const parseMode = (value: unknown): SimulationMode => {
+  if (typeof value !== 'string' || !(value in simulationModeLabels)) {
+    throw new ScenarioError(`mode must be one of ${Object.keys(simulationModeLabels).join(', ')}`);
+  }
+  return value as SimulationMode;
+};
+
+const parsePacingThresholds = (value: unknown): PacingThresholds => {
+  const thresholds = expectRecord(value, 'pacingThresholds');
+  const parsed: PacingThresholds = {
+    burstLevels: expectNumber(thresholds.burstLevels, 'pacingThresholds.burstLevels'),
+    deadZoneDays: expectNumber(thresholds.deadZoneDays, 'pacingThresholds.deadZoneDays')
+  };
+  const [problem] = validatePacingThresholds(parsed);
+  if (problem) throw new ScenarioError(`pacingThresholds: ${problem}`);
+  return parsed;
+};
+
+const parsePopulation = (value: unknown, profiles: PlayerProfiles): PopulationConfig => {
+  const population = expectRecord(value, 'population');
+  const weights = expectRecord(population.profileWeights, 'population.profileWeights');
+  if (!Array.isArray(population.activityLevels)) throw new ScenarioError('population.activityLevels must be an array');
+  const parsed: PopulationConfig = {
+    size: expectNumber(population.size, 'population.size'),
+    profileWeights: Object.fromEntries(Object.entries(weights).map(([id, weight]) => [
+      id,
+      expectNumber(weight, `population.profileWeights.${id}`)
+    ])),
+    activityLevels: population.activityLevels.map((raw, i) => {
+      const level = expectRecord(raw, `population.activityLevels[${i}]`);
+      if (typeof level.name !== 'string') throw new ScenarioError(`population.activityLevels[${i}].name must be a string`);
+      return {
+        name: level.name,
+        participation: expectNumber(level.participation, `population.activityLevels[${i}].participation`),
+        share: expectNumber(level.share, `population.activityLevels[${i}].share`)
+      };
+    }),
+    retention: parseRetention(population.retention)
+  };
+  const [problem] = validatePopulation(parsed, profiles);
+  if (problem) throw new ScenarioError(`population: ${problem}`);
+  return parsed;
+};
+
+// Rewards a game type grants per tier; tiers the type doesn't list use the tier's own reward
+const parseRewards = (value: unknown, path: string, tierIds: string[]): RewardTable => {
+  const rewards = expectRecord(value, path);
+  const table: RewardTable = {};
+  Object.entries(rewards).forEach(([tier, reward]) => {
+    if (!tierIds.includes(tier)) throw new ScenarioError(`${path}.${tier} is not one of the scenario's tiers`);
+    table[tier] = parseReward(reward, `${path}.${tier}`);
+  });
+  return table;
+};
+
+const parseGameTypes = (value: unknown, tierIds: string[]): GameTypeDefinition[] => {
+  if (!Array.isArray(value)) throw new ScenarioError('gameTypes must be an array');
+  const ids = new Set<string>();
+  const seedOffsets = new Set<number>();
+  return value.map((raw, i) => {
+    const path = `gameTypes[${i}]`;
+    const type = expectRecord(raw, path);
+    const cadence = expectRecord(type.cadence, `${path}.cadence`);
+    if (typeof type.id !== 'string' || type.id === '' || ids.has(type.id)) throw new ScenarioError(`${path}.id must be a unique, non-empty string`);
+    if (typeof type.name !== 'string') throw new ScenarioError(`${path}.name must be a string`);
+    if (!(cadenceUnits as unknown[]).includes(cadence.unit)) {
+      throw new ScenarioError(`${path}.cadence.unit must be one of ${cadenceUnits.join(', ')}`);
+    }
+    if (typeof type.annotation !== 'string' || !(type.annotation in annotationStyles)) {
+      throw new ScenarioError(`${path}.annotation must be one of ${Object.keys(annotationStyles).join(', ')}`);
+    }
+    ids.add(type.id);
+
+    const parsed: GameTypeDefinition = {
+      id: type.id,
+      name: type.name,
+      durationDays: expectNumber(type.durationDays, `${path}.durationDays`),
+      cadence: { unit: cadence.unit as CadenceUnit, every: expectNumber(cadence.every, `${path}.cadence.every`) },
+      gamesPerCycle: expectNumber(type.gamesPerCycle, `${path}.gamesPerCycle`),
+      rewards: parseRewards(type.rewards, `${path}.rewards`, tierIds),
+      participationRate: expectNumber(type.participationRate, `${path}.participationRate`),
+      lobbySize: expectNumber(type.lobbySize, `${path}.lobbySize`),
+      annotation: type.annotation as AnnotationStyle,
+      seedOffset: expectNumber(type.seedOffset, `${path}.seedOffset`)
+    };
+    const [problem] = validateGameType(parsed);
+    if (problem) throw new ScenarioError(`${path}: ${problem}`);
+    if (seedOffsets.has(parsed.seedOffset)) throw new ScenarioError(`${path}.seedOffset must be unique`);
+    seedOffsets.add(parsed.seedOffset);
+    return parsed;
+  });
+};
+
+// The selected profile and every profile definition, with distributions over the scenario's tiers
+const parseProfileChoice = (data: UnknownRecord, tierIds: string[]): { profile: PlayerProfile; profiles: PlayerProfiles } => {
+  const profiles = parseProfiles(data.profiles, tierIds);
+  if (typeof data.profile !== 'string' || !(data.profile in profiles)) {
+    throw new ScenarioError('profile must be the id of one of the scenario\'s profiles');
+  }
+  return { profile: data.profile, profiles };
+};
+
+/**
+ * Version 1 scenarios: the built-in tiers and game types with the linked
+ * game counts and one shared points table (per day of game duration, with
+ * participation flat), and the page defaults for everything added since.
+ * The population mix keeps only the default weights of profiles the
+ * scenario has, or weighs them evenly when none of them has one.
+ */
+const migrateVersion1 = (data: UnknownRecord): Scenario => {
+  const { profile, profiles } = parseProfileChoice(data, defaultTiers.map((tier) => tier.id));
+  const schedule = expectRecord(data.schedule, 'schedule');
+  const counts: Record<string, number> = {
+    daily: expectNonNegative(schedule.dailyGames, 'schedule.dailyGames'),
+    weekly: expectNonNegative(schedule.weeklyGames, 'schedule.weeklyGames'),
+    monthly: expectNonNegative(schedule.monthlyGames, 'schedule.monthlyGames')
+  };
+  const points = expectRecord(data.placementPoints, 'placementPoints');
+  const rewards: RewardTable = Object.fromEntries(defaultTiers.map((tier) => [tier.id, {
+    points: expectNonNegative(points[tier.id], `placementPoints.${tier.id}`),
+    scaling: tier.id === 'participation' ? 'flat' : 'perDay',
+    multiplier: 1
+  }]));
+  const gameTypes = defaultGameTypes.map((type) => {
+    const migrated = { ...type, gamesPerCycle: counts[type.id], rewards };
+    const [problem] = validateGameType(migrated);
+    if (problem) throw new ScenarioError(`schedule: ${problem}`);
+    return migrated;
+  });
+  const profileWeights = Object.fromEntries(Object.keys(profiles).map((id) => [id, defaultPopulation.profileWeights[id] ?? 0]));
+  const hasWeight = Object.values(profileWeights).some((weight) => weight > 0);
+
+  return {
+    version: SCENARIO_VERSION,
+    profile,
+    profiles,
+    tiers: defaultTiers,
+    gameTypes,
+    curve: parseCurve(data.curve),
+    calendar: defaultCalendar,
+    activity: defaultActivity,
+    opponents: defaultOpponents,
+    population: {
+      ...defaultPopulation,
+      profileWeights: hasWeight ? profileWeights : Object.fromEntries(Object.keys(profiles).map((id) => [id, 1]))
+    },
+    modifiers: defaultModifiers,
+    liveOps: [],
+    milestones: defaultMilestones,
+    levelTargets: defaultLevelTargets,
+    seed: DEFAULT_SEED,
+    mode: 'stochastic',
+    pacingThresholds: defaultPacingThresholds,
+    analyticalSeasons: horizonOptions[0],
+    monteCarloRuns: DEFAULT_MONTE_CARLO_RUNS,
+    showLevelList: data.showLevelList === true
+  };
+};
+
+/**
+ * Validates untrusted scenario data (from a link or a file) and returns a
+ * typed scenario. Throws a ScenarioError naming the first bad field.
+ */
+export const parseScenario = (value: unknown): Scenario => {
+  const data = expectRecord(value, 'scenario');
+  const version = expectNumber(data.version, 'version');
+  if (!Number.isInteger(version) || version < 1) throw new ScenarioError('version must be a positive integer');
+  if (version > SCENARIO_VERSION) {
+    throw new ScenarioError(`Scenario version ${version} is newer than this tool supports (version ${SCENARIO_VERSION})`);
+  }
+
+  if (version === 1) return migrateVersion1(data);
+
+  const tiers = parseTiers(data.tiers);
+  const tierIds = tiers.map((tier) => tier.id);
+  const { profile, profiles } = parseProfileChoice(data, tierIds);
+  const gameTypes = parseGameTypes(data.gameTypes, tierIds);
+
+  return {
+    version: SCENARIO_VERSION,
+    profile,
+    profiles,
+    tiers,
+    gameTypes,
+    curve: parseCurve(data.curve),
+    calendar: parseCalendar(data.calendar),
+    activity: parseActivity(data.activity),
+    opponents: parseOpponents(data.opponents),
+    population: parsePopulation(data.population, profiles),
+    modifiers: parseModifiers(data.modifiers),
+    liveOps: parseLiveOps(data.liveOps, gameTypes),
+    milestones: parseMilestones(data.milestones),
+    levelTargets: parseLevelTargets(data.levelTargets),
+    seed: parseSeed(data.seed),
+    mode: parseMode(data.mode),
+    pacingThresholds: parsePacingThresholds(data.pacingThresholds),
+    analyticalSeasons: expectOption(data.analyticalSeasons, 'analyticalSeasons', horizonOptions),
+    monteCarloRuns: expectOption(data.monteCarloRuns, 'monteCarloRuns', monteCarloRunOptions),
+    showLevelList: data.showLevelList === true
+  };
+};
+
+// Problems that would stop the scenario loading back from a link or file; empty when it round-trips
+export const validateScenario = (scenario: Scenario): string[] => {
+  try {
+    parseScenario(JSON.parse(JSON.stringify(scenario)));
+    return [];
+  } catch (error) {
+    if (error instanceof ScenarioError) return [error.message];
+    throw error;
+  }
+};
+
+// Marks exported files so unrelated JSON is rejected with a clear message
+export const SCENARIO_FILE_FORMAT = 'xp-calc-scenario';
+
+export const serializeScenarioFile = (scenario: Scenario): string => {
+  return `${JSON.stringify({ format: SCENARIO_FILE_FORMAT, ...scenario }, null, 2)}\n`;
+};
+
+export const parseScenarioFile = (text: string): Scenario => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ScenarioError(`The file is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`);
+  }
+  if (!isRecord(data) || data.format !== SCENARIO_FILE_FORMAT) {
+    throw new ScenarioError(`The file is not an XP Calculator scenario (expected "format": "${SCENARIO_FILE_FORMAT}")`);
+  }
+  return parseScenario(data);
+};
+
+const SCENARIO_HASH_PREFIX = '#scenario=';
+
+// base64url keeps the encoded scenario safe to paste into tickets and chat
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+export const encodeScenarioHash = (scenario: Scenario): string => {
+  return `${SCENARIO_HASH_PREFIX}${toBase64Url(JSON.stringify(scenario))}`;
+};
+
+// Scenario from a URL hash, or null when the hash doesn't carry one
+export const decodeScenarioHash = (hash: string): Scenario | null => {
+  if (!hash.startsWith(SCENARIO_HASH_PREFIX)) return null;
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(hash.slice(SCENARIO_HASH_PREFIX.length)));
+  } catch {
+    throw new ScenarioError('The scenario link is damaged and could not be decoded');
+  }
+  return parseScenario(data);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_GAMES_PER_CYCLE } from './gameTypes';
+import { PlayerProfile, playerProfiles } from './profiles';
+import { simulateYear, SimulationResult } from './simulation';
+import { defaultConfig } from './testConfig';
+
+const summarize = (result: SimulationResult) => ({
+  days: result.levels.length,
+  games: result.events.length,
+  finalXP: result.cumulativeXP[result.cumulativeXP.length - 1],
+  finalLevel: result.levels[result.levels.length - 1],
+  dayAtLevel10: result.levels.findIndex((level) => level >= 10) + 1
+});
+
+// Pinned outputs for the default scenario; update deliberately when the model changes
+const pinnedRolled: Record<PlayerProfile, ReturnType<typeof summarize>> = {
+  'wins-everything': { days: 366, games: 604, finalXP: 8895, finalLevel: 86, dayAtLevel10: 7 },
+  exceptional: { days: 366, games: 590, finalXP: 6654, finalLevel: 76, dayAtLevel10: 10 },
+  average: { days: 366, games: 566, finalXP: 3988, finalLevel: 60, dayAtLevel10: 9 },
+  looser: { days: 366, games: 591, finalXP: 591, finalLevel: 24, dayAtLevel10: 62 }
+};
+
+const pinnedExpectedXP: Record<PlayerProfile, number> = {
+  'wins-everything': 8823.3745,
+  exceptional: 6617.5309,
+  average: 4062.4602,
+  looser: 600.5849
+};
+
+describe('simulateYear', () => {
+  it('covers the four built-in profiles', () => {
+    expect(Object.keys(playerProfiles).sort()).toEqual(Object.keys(pinnedRolled).sort());
+  });
+
+  it.each(Object.keys(pinnedRolled))('pins the rolled season for %s', (profileId) => {
+    expect(summarize(simulateYear(defaultConfig(profileId, 'stochastic')))).toEqual(pinnedRolled[profileId]);
+  });
+
+  it.each(Object.keys(pinnedExpectedXP))('pins the expected-value season for %s', (profileId) => {
+    const result = simulateYear(defaultConfig(profileId, 'expected'));
+    expect(result.cumulativeXP[result.cumulativeXP.length - 1]).toBeCloseTo(pinnedExpectedXP[profileId], 3);
+    expect(result.events).toEqual([]);
+  });
+
+  it('gives the same season for the same seed', () => {
+    const config = defaultConfig('average', 'stochastic');
+    expect(simulateYear(config).dailyXP).toEqual(simulateYear(config).dailyXP);
+  });
+
+  it('rerolls the season for a different seed', () => {
+    const config = defaultConfig('average', 'stochastic');
+    expect(simulateYear({ ...config, seed: config.seed + 1 }).dailyXP).not.toEqual(simulateYear(config).dailyXP);
+  });
+});
+
+describe('rolled games per cycle', () => {
+  it('stops at the roll keys\' room when activity scales a cycle past it', () => {
+    const config = defaultConfig('average', 'stochastic');
+    const monthly = { ...config.gameTypes[2], gamesPerCycle: MAX_GAMES_PER_CYCLE, participationRate: 1 };
+    const result = simulateYear({
+      ...config,
+      gameTypes: [monthly],
+      activity: { ...config.activity, seasonality: Array(12).fill(2) }
+    });
+    const gameIndices = result.events.filter((event) => event.day === result.events[0].day).map((event) => event.gameIndex);
+    expect(gameIndices).toHaveLength(MAX_GAMES_PER_CYCLE + 1);
+    expect(new Set(gameIndices).size).toBe(gameIndices.length);
+  });
+});
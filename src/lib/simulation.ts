@@ -0,0 +1,269 @@
+import { activityMultiplier, ActivityModel } from './activity';
+import { buildCalendar, CalendarConfig, CalendarDay } from './calendar';
+import { CurveDefinition } from './curves';
+import { completionCycles, gameRollKey, GameTypeDefinition, MAX_GAMES_PER_CYCLE, rewardPoints } from './gameTypes';
+import { createLevelScale, LevelScale } from './levels';
+import { eventBonus, eventsOnDay, extraGameRollKey, LiveOpsEvent } from './liveOps';
+import { boosterBonus, expectedStreakBonus, streakBonus, XPModifiers, XPSource, xpSources } from './modifiers';
+import { deriveSeed, keyedRandom, RandomSource } from './random';
+import { OpponentPool, ratingDistribution } from './rating';
+import { pickTier, Placement, PlacementDistribution, PlacementTier, tierProbability } from './tiers';
+
+// Roll every game, or award each game's expected placement points as fractions
+export type SimulationMode = 'stochastic' | 'expected';
+
+export const simulationModeLabels: Record<SimulationMode, string> = {
+  stochastic: 'Stochastic (roll each game)',
+  expected: 'Expected value'
+};
+
+export interface SimulationConfig {
+  gameTypes: GameTypeDefinition[];
+  tiers: PlacementTier[];
+  distribution: PlacementDistribution;
+  rating?: number; // when set, each type's distribution comes from the rating model and its lobby size
+  opponents: OpponentPool;
+  curve: CurveDefinition;
+  calendar: CalendarConfig;
+  activity: ActivityModel;
+  modifiers: XPModifiers;
+  liveOps: LiveOpsEvent[];
+  mode: SimulationMode;
+  seed: number; // scenario seed for the placement rolls
+  seedOffset: number; // per-profile offset mixed into the scenario seed
+  random?: RandomSource; // when set, placements are rolled from this generator instead of the keyed seeds
+}
+
+export interface GameEvent {
+  day: number;
+  gameType: string; // game type id
+  gameIndex: number;
+  placement: Placement; // tier id
+  points: number;
+  liveOpsEvent?: string; // name of the live-ops event that added the game
+}
+
+// Games played and XP earned per game type id and tier id
+export type XPBreakdown = Record<string, Record<Placement, { games: number; xp: number }>>;
+
+export interface SimulationResult {
+  calendar: CalendarDay[]; // the season's days, aligned with the per-day series
+  dailyXP: number[]; // XP gained on each day
+  dailyXPBySource: Record<XPSource, number[]>; // the same, split by where it came from
+  dailyVariance: number[]; // variance of each day's XP around its expectation; zeros for rolled runs
+  cumulativeXP: number[];
+  levels: number[];
+  events: GameEvent[]; // every rolled game; empty in expected-value mode
+  breakdown: XPBreakdown; // placement XP only, before modifiers
+}
+
+// Placement odds for one game type: the profile's fixed distribution, or the rating model's for the type's lobby size
+export const placementDistribution = (
+  config: Pick<SimulationConfig, 'tiers' | 'distribution' | 'rating' | 'opponents'>,
+  type: GameTypeDefinition
+): PlacementDistribution => {
+  if (config.rating === undefined) return config.distribution;
+  return ratingDistribution(config.tiers, config.rating, type.lobbySize, config.opponents);
+};
+
+// Chance that none of a day's scheduled games (whole part plus a remainder game) is played and has an outcome of `chance`
+const noneChance = (scheduled: number, participation: number, chance: number): number => {
+  const whole = Math.floor(scheduled);
+  return Math.pow(1 - participation * chance, whole) * (1 - (scheduled - whole) * participation * chance);
+};
+
+/**
+ * Simulates one player's season day by day over the real calendar. Each game
+ * type completes on its own cadence. In stochastic mode every game is rolled
+ * on its own; in expected-value mode game counts stay fractional and each
+ * game earns its expected placement points.
+ *
+ * Activity scales how many games are scheduled: day and week cadences follow
+ * seasonality and daily variation, month cadences seasonality only. The whole
+ * part of the scaled count is scheduled, and the fractional remainder is the
+ * chance of one more game. The player then takes part in each scheduled game
+ * with the type's participation rate, times weekday participation for
+ * day-cadence types.
+ *
+ * Modifiers are layered on top of placement XP. In expected-value mode the
+ * streak bonus is its average for the type's win odds, the first win of the
+ * day is weighted by the chance of winning at least once, and the daily login
+ * by the chance of playing at least once.
+ *
+ * Live-ops events boost placement XP on their days and can add extra games,
+ * played like any other game of their type.
+ *
+ * Expected-value runs also report each day's variance: which games are
+ * played and how they place, with every game independent. The streak bonus
+ * counts as its average and bonuses are taken as independent of the games,
+ * so the variance runs low when streak, first-win or login bonuses are on.
+ */
+export const simulateYear = (config: SimulationConfig, levelScale: LevelScale = createLevelScale(config.curve)): SimulationResult => {
+  const { gameTypes, tiers, activity, modifiers, liveOps, mode, seed, seedOffset, random } = config;
+  const expected = mode === 'expected';
+  const calendar = buildCalendar(config.calendar);
+  const cyclesByType = gameTypes.map((type) => completionCycles(type, calendar));
+  const distributions = gameTypes.map((type) => placementDistribution(config, type));
+  const winChances = distributions.map((distribution) => tierProbability(distribution, tiers[0].id));
+  const expectedStreakBonuses = winChances.map((chance) => expectedStreakBonus(modifiers.winStreak, chance));
+  // Each profile draws from its own seed, so profiles don't share results
+  const profileSeed = deriveSeed(seed, seedOffset);
+  const roll = (distribution: PlacementDistribution, key: number): Placement => {
+    return pickTier(tiers, distribution, random ? random() : keyedRandom(profileSeed, key));
+  };
+  // Whether the remainder game is scheduled and whether each game is played draw from their own seeds, keyed like placements
+  const remainderSeed = deriveSeed(profileSeed, 1);
+  const participationSeed = deriveSeed(profileSeed, 2);
+  const chanceHits = (chance: number, draws: number, key: number): boolean => {
+    if (chance >= 1) return true;
+    if (chance <= 0) return false;
+    return (random ? random() : keyedRandom(draws, key)) < chance;
+  };
+
+  const dailyXP: number[] = [];
+  const dailyXPBySource = Object.fromEntries(xpSources.map((source) => [source, [] as number[]])) as Record<XPSource, number[]>;
+  const dailyVariance: number[] = [];
+  const cumulativeXP: number[] = [];
+  const levels: number[] = [];
+  const events: GameEvent[] = [];
+  const breakdown: XPBreakdown = {};
+  gameTypes.forEach((type) => {
+    breakdown[type.id] = tiers.reduce((totals, tier) => ({ ...totals, [tier.id]: { games: 0, xp: 0 } }), {} as XPBreakdown[string]);
+  });
+
+  let cumulativePoints = 0;
+  let streak = 0; // consecutive wins among rolled games, carried across days
+  // Rolled bonus XP is whole points per game; expected-value XP stays fractional
+  const bonusXP = (xp: number) => (expected ? xp : Math.round(xp));
+
+  calendar.forEach((calendarDay, dayIndex) => {
+    const { day, month, weekday } = calendarDay;
+    const activityLevel = activityMultiplier(activity, calendarDay);
+
+    // Calculate games that complete this day and award points
+    const sourcePoints = Object.fromEntries(xpSources.map((source) => [source, 0])) as Record<XPSource, number>;
+    const liveOpsToday = eventsOnDay(liveOps, calendarDay);
+    const boost = boosterBonus(modifiers.boosters, day);
+    const eventBoost = eventBonus(liveOpsToday);
+    let gamesPlayed = 0; // rolled games only
+    let noWinChance = 1; // chance the player hasn't won a game yet today
+    let noGameChance = 1; // chance the player hasn't played a game yet today
+    let variance = 0;
+
+    const award = (type: GameTypeDefinition, tier: PlacementTier, games: number) => {
+      const points = games * rewardPoints(type, tier);
+      breakdown[type.id][tier.id].games += games;
+      breakdown[type.id][tier.id].xp += points;
+      sourcePoints.placement += points;
+      sourcePoints.booster += bonusXP(points * boost);
+      sourcePoints.event += bonusXP(points * eventBoost);
+      return points;
+    };
+
+    // Plays a game type's games for the day: `scheduled` is the activity-scaled count, each played with `participation`
+    const play = (
+      typeIndex: number,
+      scheduled: number,
+      participation: number,
+      rollKey: (gameIndex: number) => number,
+      liveOpsEvent?: string
+    ) => {
+      const type = gameTypes[typeIndex];
+      if (expected) {
+        const whole = Math.floor(scheduled);
+        const remainderParticipation = (scheduled - whole) * participation;
+        const games = scheduled * participation;
+        let gameMean = 0;
+        let gameMeanSquare = 0;
+        tiers.forEach((tier) => {
+          const probability = tierProbability(distributions[typeIndex], tier.id);
+          const streakShare = tier === tiers[0] ? expectedStreakBonuses[typeIndex] : 0;
+          const points = award(type, tier, games * probability);
+          sourcePoints.streak += points * streakShare;
+          // XP of one game landing in this tier, bonuses included
+          const gameXP = rewardPoints(type, tier) * (1 + boost + eventBoost + streakShare);
+          gameMean += probability * gameXP;
+          gameMeanSquare += probability * gameXP * gameXP;
+        });
+        // Each scheduled game is played or skipped, then placed: XP is zero with the chance of skipping it
+        const slotVariance = (chance: number) => chance * gameMeanSquare - Math.pow(chance * gameMean, 2);
+        variance += whole * slotVariance(participation) + slotVariance(remainderParticipation);
+        noWinChance *= noneChance(scheduled, participation, winChances[typeIndex]);
+        noGameChance *= noneChance(scheduled, participation, 1);
+        return;
+      }
+
+      // Busy days can scale a cycle past the roll keys' room; games beyond it are dropped rather than reusing other games' rolls
+      const whole = Math.floor(scheduled);
+      const scheduledCount = whole > MAX_GAMES_PER_CYCLE
+        ? MAX_GAMES_PER_CYCLE + 1
+        : whole + (chanceHits(scheduled - whole, remainderSeed, rollKey(whole)) ? 1 : 0);
+      for (let gameIndex = 0; gameIndex < scheduledCount; gameIndex++) {
+        if (!chanceHits(participation, participationSeed, rollKey(gameIndex))) continue;
+        gamesPlayed++;
+        const placement = roll(distributions[typeIndex], rollKey(gameIndex));
+        const tier = tiers.find((t) => t.id === placement)!;
+        const points = award(type, tier, 1);
+        if (tier === tiers[0]) {
+          sourcePoints.streak += bonusXP(points * streakBonus(modifiers.winStreak, streak));
+          streak++;
+          noWinChance = 0;
+        } else {
+          streak = 0;
+        }
+        events.push({ day, gameType: type.id, gameIndex, placement, points, ...(liveOpsEvent ? { liveOpsEvent } : {}) });
+      }
+    };
+
+    gameTypes.forEach((type, typeIndex) => {
+      const cycle = cyclesByType[typeIndex][dayIndex];
+      if (cycle === 0 || type.gamesPerCycle <= 0) return;
+
+      const participation = type.participationRate * (type.cadence.unit === 'day' ? activity.weekdayParticipation[weekday] : 1);
+      const activityScale = type.cadence.unit === 'month' ? activity.seasonality[month] : activityLevel;
+      play(typeIndex, type.gamesPerCycle * activityScale, participation, (gameIndex) => gameRollKey(type, cycle, gameIndex));
+    });
+
+    liveOpsToday.forEach((event) => {
+      const typeIndex = gameTypes.findIndex((type) => type.id === event.gameType);
+      if (typeIndex === -1 || event.extraGames <= 0) return;
+      const eventIndex = liveOps.indexOf(event);
+      play(
+        typeIndex,
+        event.extraGames,
+        gameTypes[typeIndex].participationRate,
+        (gameIndex) => extraGameRollKey(eventIndex, dayIndex, gameIndex),
+        event.name
+      );
+    });
+
+    if (modifiers.firstWin.enabled) {
+      sourcePoints.firstWin += modifiers.firstWin.xp * (1 - noWinChance);
+      variance += Math.pow(modifiers.firstWin.xp, 2) * noWinChance * (1 - noWinChance);
+    }
+    if (modifiers.dailyLogin.enabled) {
+      if (expected) {
+        sourcePoints.login += modifiers.dailyLogin.xp * (1 - noGameChance);
+        variance += Math.pow(modifiers.dailyLogin.xp, 2) * noGameChance * (1 - noGameChance);
+      } else if (gamesPlayed > 0) {
+        sourcePoints.login += modifiers.dailyLogin.xp;
+      }
+    }
+
+    const totalDailyPoints = xpSources.reduce((total, source) => total + sourcePoints[source], 0);
+    xpSources.forEach((source) => dailyXPBySource[source].push(sourcePoints[source]));
+    dailyVariance.push(variance);
+    cumulativePoints += totalDailyPoints;
+    dailyXP.push(totalDailyPoints);
+    cumulativeXP.push(cumulativePoints);
+    levels.push(levelScale.levelFromXP(cumulativePoints));
+  });
+
+  return { calendar, dailyXP, dailyXPBySource, dailyVariance, cumulativeXP, levels, events, breakdown };
+};
+
+// First day (1-based) on which a level series reaches the target, or null if it never does
+export const firstDayAtLevel = (levels: number[], targetLevel: number): number | null => {
+  const index = levels.findIndex((level) => level >= targetLevel);
+  return index === -1 ? null : index + 1;
+};
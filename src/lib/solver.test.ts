@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { curveFamilies, PowerCurve, QuadraticCurve } from './curves';
+import { evaluateGoals, PacingGoal, solveCurve } from './solver';
+
+const target: PowerCurve = { family: 'power', a: 20, p: 1.5 };
+const totalXP = (level: number) => Array.from({ length: level }, (_, i) => target.a * Math.pow(i + 1, target.p)).reduce((sum, xp) => sum + xp);
+
+const goals: PacingGoal[] = [
+  { id: 'early', profile: 'average', level: 10, day: 30 },
+  { id: 'mid', profile: 'average', level: 25, day: 90 },
+  { id: 'late', profile: 'average', level: 50, day: 200 }
+];
+
+// An average player who has earned exactly what the target curve asks for on each goal day
+const trajectory = Array.from({ length: 365 }, (_, i) => {
+  const goal = goals.find(({ day }) => day === i + 1);
+  return goal ? totalXP(goal.level) : 0;
+});
+const cumulativeXP = { average: trajectory };
+
+describe('solveCurve', () => {
+  it('recovers a curve that meets every goal exactly', () => {
+    const { curve, error } = solveCurve(curveFamilies.power.defaults as PowerCurve, goals, cumulativeXP);
+    expect(error).toBeLessThan(1e-3);
+    expect((curve as PowerCurve).a).toBeCloseTo(target.a, 0);
+    expect((curve as PowerCurve).p).toBeCloseTo(target.p, 2);
+  });
+
+  it('reaches every goal level by its day with the solved curve', () => {
+    const { curve } = solveCurve(curveFamilies.power.defaults as PowerCurve, goals, cumulativeXP);
+    evaluateGoals(curve, goals, cumulativeXP).forEach(({ goal, levelOnDay, dayReached }) => {
+      expect(levelOnDay).toBeGreaterThanOrEqual(goal.level);
+      expect(dayReached).not.toBeNull();
+      expect(dayReached!).toBeLessThanOrEqual(goal.day);
+    });
+  });
+
+  it('holds solver-fixed coefficients at their current values', () => {
+    const start: QuadraticCurve = { ...(curveFamilies.quadratic.defaults as QuadraticCurve), multiplier: 0.7 };
+    expect((solveCurve(start, goals, cumulativeXP).curve as QuadraticCurve).multiplier).toBe(0.7);
+  });
+
+  it('leaves the curve alone when no goal has XP to fit against', () => {
+    const start = curveFamilies.power.defaults as PowerCurve;
+    const unreachable: PacingGoal[] = [{ id: 'gone', profile: 'deleted', level: 10, day: 30 }, { ...goals[0], day: 1 }];
+    expect(solveCurve(start, unreachable, cumulativeXP)).toEqual({ curve: start, error: 0, iterations: 0 });
+  });
+});
+
+describe('evaluateGoals', () => {
+  it('reports nothing reached for a profile without a trajectory', () => {
+    const [residual] = evaluateGoals(target, [{ ...goals[0], profile: 'deleted' }], cumulativeXP);
+    expect(residual).toMatchObject({ earnedXP: 0, dayReached: null });
+  });
+});
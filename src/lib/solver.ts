@@ -0,0 +1,134 @@
+import { curveFamilies, CurveDefinition, evaluateCurve, getCurveParam, setCurveParam, SimpleCurve } from './curves';
+import { createLevelScale } from './levels';
+import { PlayerProfile } from './profiles';
+
+export interface PacingGoal {
+  id: string;
+  profile: PlayerProfile;
+  level: number; // level the profile should reach...
+  day: number; // ...by this day of the year
+}
+
+export interface GoalResidual {
+  goal: PacingGoal;
+  earnedXP: number; // XP the profile has earned by the goal day
+  requiredXP: number; // XP the curve asks for to complete the goal level
+  levelOnDay: number; // level actually reached on the goal day
+  dayReached: number | null; // first day the goal level is reached, null if never
+}
+
+export interface SolveResult {
+  curve: SimpleCurve;
+  error: number; // root mean square of the log-XP residuals
+  iterations: number;
+}
+
+// Cumulative XP to complete a level, clamped like calculateXPForLevel but without flooring so the fit stays smooth
+const smoothTotalXP = (curve: SimpleCurve, level: number): number => {
+  let total = 0;
+  for (let l = 1; l <= level; l++) {
+    const xp = evaluateCurve(curve, l);
+    total += Number.isFinite(xp) ? Math.max(1, xp) : Number.MAX_SAFE_INTEGER;
+  }
+  return total;
+};
+
+/**
+ * Nelder-Mead simplex minimisation. Derivative-free, which suits the
+ * clamped curves where gradients are zero or undefined in places.
+ */
+const nelderMead = (objective: (x: number[]) => number, start: number[], maxIterations: number): { x: number[]; value: number; iterations: number } => {
+  const n = start.length;
+  let simplex = [start, ...start.map((value, i) => {
+    const point = [...start];
+    point[i] = value === 0 ? 0.1 : value * 1.5;
+    return point;
+  })].map((x) => ({ x, value: objective(x) }));
+
+  const combine = (a: number[], b: number[], t: number) => a.map((value, i) => value + t * (b[i] - value));
+
+  let iteration = 0;
+  for (; iteration < maxIterations; iteration++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.value - best.value) < 1e-10) break;
+
+    const centroid = start.map((_, i) => simplex.slice(0, n).reduce((sum, point) => sum + point.x[i], 0) / n);
+    const reflected = combine(centroid, worst.x, -1);
+    const reflectedValue = objective(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.x, -2);
+      const expandedValue = objective(expanded);
+      simplex[n] = expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = combine(centroid, worst.x, 0.5);
+      const contractedValue = objective(contracted);
+      if (contractedValue < worst.value) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        // Shrink everything towards the best point
+        simplex = simplex.map((point, i) => {
+          if (i === 0) return point;
+          const x = combine(best.x, point.x, 0.5);
+          return { x, value: objective(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { x: simplex[0].x, value: simplex[0].value, iterations: iteration };
+};
+
+/**
+ * Fits the curve's free coefficients so that each goal's level costs about
+ * as much XP as the profile has earned by the goal day. Residuals are taken
+ * in log space so early and late goals weigh the same.
+ */
+export const solveCurve = (curve: SimpleCurve, goals: PacingGoal[], cumulativeXPByProfile: Record<PlayerProfile, number[]>): SolveResult => {
+  const freeParams = curveFamilies[curve.family].params.filter((param) => !param.solverFixed).map((param) => param.key);
+  const targets = goals
+    .map((goal) => ({ goal, earnedXP: cumulativeXPByProfile[goal.profile]?.[goal.day - 1] ?? 0 }))
+    .filter((target) => target.earnedXP > 0 && target.goal.level >= 1);
+
+  const toCurve = (x: number[]) => freeParams.reduce<SimpleCurve>((result, key, i) => setCurveParam(result, key, x[i]), curve);
+  const objective = (x: number[]) => {
+    const candidate = toCurve(x);
+    return targets.reduce((sum, { goal, earnedXP }) => {
+      const residual = Math.log(smoothTotalXP(candidate, goal.level)) - Math.log(earnedXP);
+      return sum + residual * residual;
+    }, 0);
+  };
+
+  if (targets.length === 0 || freeParams.length === 0) {
+    return { curve, error: 0, iterations: 0 };
+  }
+
+  const result = nelderMead(objective, freeParams.map((key) => getCurveParam(curve, key)), 2000);
+  return {
+    curve: toCurve(result.x.map((value) => Number(value.toPrecision(6)))), // Keep coefficients readable in the inputs
+    error: Math.sqrt(result.value / targets.length),
+    iterations: result.iterations
+  };
+};
+
+// How well a curve meets each goal against the simulated trajectories
+export const evaluateGoals = (curve: CurveDefinition, goals: PacingGoal[], cumulativeXPByProfile: Record<PlayerProfile, number[]>): GoalResidual[] => {
+  const levelScale = createLevelScale(curve);
+  return goals.map((goal) => {
+    const trajectory = cumulativeXPByProfile[goal.profile] ?? []; // Goals may point at a deleted profile
+    const requiredXP = levelScale.totalXPToLevel(goal.level);
+    const reachedIndex = trajectory.findIndex((xp) => xp >= requiredXP);
+    return {
+      goal,
+      earnedXP: trajectory[goal.day - 1] ?? 0,
+      requiredXP,
+      levelOnDay: levelScale.levelFromXP(trajectory[goal.day - 1] ?? 0),
+      dayReached: reachedIndex === -1 ? null : reachedIndex + 1
+    };
+  });
+};
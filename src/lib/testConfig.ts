@@ -0,0 +1,30 @@
+import { defaultActivity } from './activity';
+import { defaultCalendar } from './calendar';
+import { curveFamilies } from './curves';
+import { defaultGameTypes } from './gameTypes';
+import { defaultModifiers } from './modifiers';
+import { PlayerProfile, playerProfiles } from './profiles';
+import { DEFAULT_SEED } from './random';
+import { defaultOpponents } from './rating';
+import { SimulationConfig, SimulationMode } from './simulation';
+import { defaultTiers } from './tiers';
+
+// The page's settings on first load, for one built-in profile; shared by the simulation tests
+export const defaultConfig = (profileId: PlayerProfile, mode: SimulationMode): SimulationConfig => {
+  const profile = playerProfiles[profileId];
+  return {
+    gameTypes: defaultGameTypes,
+    tiers: defaultTiers,
+    distribution: profile.distribution,
+    rating: profile.rating,
+    opponents: defaultOpponents,
+    curve: curveFamilies.quadratic.defaults,
+    calendar: defaultCalendar,
+    activity: defaultActivity,
+    modifiers: defaultModifiers,
+    liveOps: [],
+    mode,
+    seed: DEFAULT_SEED,
+    seedOffset: profile.seedOffset
+  };
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cutoffRank,
+  defaultTiers,
+  fitDistribution,
+  PlacementTier,
+  pickTier,
+  tierForRank,
+  validateTiers,
+  withoutTier
+} from './tiers';
+
+const [first, second, third, participation] = defaultTiers;
+const even = { first: 0.25, second: 0.25, third: 0.25, participation: 0.25 };
+
+describe('pickTier', () => {
+  it.each([
+    [0, 'first'],
+    [0.2499, 'first'],
+    [0.25, 'second'],
+    [0.5, 'third'],
+    [0.7499, 'third'],
+    [0.75, 'participation'],
+    [0.9999, 'participation']
+  ])('maps a roll of %f to %s', (roll, tier) => {
+    expect(pickTier(defaultTiers, even, roll)).toBe(tier);
+  });
+
+  it('gives whatever the other tiers leave to the catch-all tier', () => {
+    expect(pickTier(defaultTiers, { first: 0.5 }, 0.6)).toBe('participation');
+    expect(pickTier(defaultTiers, { first: 0.5, participation: 0 }, 0.99)).toBe('participation');
+  });
+
+  it('always picks a lone tier', () => {
+    expect(pickTier([participation], { first: 1 }, 0)).toBe('participation');
+  });
+});
+
+describe('cutoffRank', () => {
+  it('takes whole places for a rank cutoff', () => {
+    expect(cutoffRank({ unit: 'rank', value: 2.5 }, 10)).toBe(2);
+  });
+
+  it.each([
+    [10, 8, 1],
+    [30, 8, 3],
+    [25, 8, 2],
+    [100, 8, 8]
+  ])('rounds the top %i%% of a lobby of %i up to %i places', (value, lobbySize, rank) => {
+    expect(cutoffRank({ unit: 'percent', value }, lobbySize)).toBe(rank);
+  });
+});
+
+describe('tierForRank', () => {
+  it.each([
+    [1, 'first'],
+    [2, 'second'],
+    [3, 'third'],
+    [4, 'participation'],
+    [10, 'participation']
+  ])('puts rank %i in %s', (rank, tier) => {
+    expect(tierForRank(defaultTiers, rank, 10).id).toBe(tier);
+  });
+
+  it('scales percent cutoffs with the lobby size', () => {
+    const tiers: PlacementTier[] = [{ ...first, cutoff: { unit: 'percent', value: 10 } }, { ...second, cutoff: { unit: 'percent', value: 50 } }, participation];
+    expect(tierForRank(tiers, 2, 10).id).toBe('second');
+    expect(tierForRank(tiers, 2, 20).id).toBe('first');
+    expect(tierForRank(tiers, 6, 10).id).toBe('participation');
+  });
+
+  it('ignores the cutoff of the catch-all tier', () => {
+    expect(tierForRank([first, { ...participation, cutoff: { unit: 'rank', value: 1 } }], 5, 10).id).toBe('participation');
+  });
+});
+
+describe('withoutTier', () => {
+  it('moves the removed tier\'s probability into the new catch-all tier', () => {
+    expect(withoutTier(even, 'second', [first, third, participation])).toEqual({ first: 0.25, third: 0.25, participation: 0.5 });
+  });
+
+  it('moves it into the tier that becomes last when the catch-all is removed', () => {
+    expect(withoutTier(even, 'participation', [first, second, third])).toEqual({ first: 0.25, second: 0.25, third: 0.5 });
+  });
+});
+
+describe('fitDistribution', () => {
+  it('folds every tier missing from the list into the catch-all tier', () => {
+    expect(fitDistribution(even, [first, participation])).toEqual({ first: 0.25, participation: 0.75 });
+    expect(fitDistribution(even, defaultTiers)).toEqual(even);
+  });
+});
+
+describe('validateTiers', () => {
+  it('accepts the default tiers', () => {
+    expect(validateTiers(defaultTiers)).toEqual([]);
+  });
+
+  it.each<[string, PlacementTier[], string]>([
+    ['no tiers', [], 'At least one tier is required'],
+    ['repeated ids', [first, { ...second, id: 'first' }], 'Tier ids must be unique'],
+    ['a bad color', [{ ...first, color: 'gold' }], '1st Place: color must be #rrggbb'],
+    ['negative points', [{ ...first, reward: { ...first.reward, points: -1 } }], '1st Place: points must not be negative'],
+    ['a zero rank cutoff', [{ ...first, cutoff: { unit: 'rank', value: 0 } }], '1st Place: cutoff must be more than 0'],
+    ['a cutoff over 100%', [{ ...first, cutoff: { unit: 'percent', value: 120 } }], '1st Place: cutoff must be more than 0 and at most 100%']
+  ])('rejects %s', (_, tiers, error) => {
+    expect(validateTiers(tiers)).toContain(error);
+  });
+});
@@ -0,0 +1,139 @@
+// Tier id; the default ids are 'first', 'second', 'third' and 'participation'
+export type Placement = string;
+
+// Probability of finishing in each tier; tiers missing from a distribution count as 0
+export type PlacementDistribution = Record<Placement, number>;
+
+// flat: points as entered; perDay: points × game duration; multiplier: points × a custom factor
+export type RewardScaling = 'flat' | 'perDay' | 'multiplier';
+
+export interface PlacementReward {
+  points: number;
+  scaling: RewardScaling;
+  multiplier: number; // used by the multiplier rule
+}
+
+// Finishing positions a tier covers under the skill-rating model: the top N places or the top N% of the lobby
+export type CutoffUnit = 'rank' | 'percent';
+
+export interface TierCutoff {
+  unit: CutoffUnit;
+  value: number;
+}
+
+export interface PlacementTier {
+  id: Placement;
+  name: string;
+  icon: string;
+  color: string; // #rrggbb, used for chart markers and legends
+  reward: PlacementReward; // default reward for game types without their own entry for this tier
+  cutoff: TierCutoff; // ignored for the catch-all tier
+}
+
+export const rewardScalingLabels: Record<RewardScaling, string> = {
+  flat: 'Flat',
+  perDay: 'Per day',
+  multiplier: 'Custom ×'
+};
+
+// Podium places earn points per day of game duration; participation is a flat award
+export const defaultTiers: PlacementTier[] = [
+  {
+    id: 'first',
+    name: '1st Place',
+    icon: '🥇',
+    color: '#ffd700',
+    reward: { points: 5, scaling: 'perDay', multiplier: 1 },
+    cutoff: { unit: 'rank', value: 1 }
+  },
+  {
+    id: 'second',
+    name: '2nd Place',
+    icon: '🥈',
+    color: '#c0c0c0',
+    reward: { points: 3, scaling: 'perDay', multiplier: 1 },
+    cutoff: { unit: 'rank', value: 2 }
+  },
+  {
+    id: 'third',
+    name: '3rd Place',
+    icon: '🥉',
+    color: '#cd7f32',
+    reward: { points: 2, scaling: 'perDay', multiplier: 1 },
+    cutoff: { unit: 'rank', value: 3 }
+  },
+  {
+    id: 'participation',
+    name: 'Participation',
+    icon: '🎮',
+    color: '#9ca3af',
+    reward: { points: 1, scaling: 'flat', multiplier: 1 },
+    cutoff: { unit: 'percent', value: 100 }
+  }
+];
+
+export const cutoffUnitLabels: Record<CutoffUnit, string> = {
+  rank: 'places',
+  percent: '% of lobby'
+};
+
+// Tiers are ranked best first; the last one catches every game that misses the others
+export const catchAllTier = (tiers: PlacementTier[]): PlacementTier => tiers[tiers.length - 1];
+
+export const tierProbability = (distribution: PlacementDistribution, tier: Placement): number => distribution[tier] ?? 0;
+
+export const validateTiers = (tiers: PlacementTier[]): string[] => {
+  const errors: string[] = [];
+  if (tiers.length === 0) errors.push('At least one tier is required');
+  if (new Set(tiers.map((tier) => tier.id)).size !== tiers.length) errors.push('Tier ids must be unique');
+  tiers.forEach((tier) => {
+    if (!tier.name.trim()) errors.push('Every tier needs a name');
+    if (!/^#[0-9a-f]{6}$/i.test(tier.color)) errors.push(`${tier.name || tier.id}: color must be #rrggbb`);
+    if (!(tier.reward.points >= 0)) errors.push(`${tier.name || tier.id}: points must not be negative`);
+    if (!(tier.cutoff.value > 0) || (tier.cutoff.unit === 'percent' && tier.cutoff.value > 100)) {
+      errors.push(`${tier.name || tier.id}: cutoff must be more than 0${tier.cutoff.unit === 'percent' ? ' and at most 100%' : ''}`);
+    }
+  });
+  return Array.from(new Set(errors));
+};
+
+// Lowest finishing position (1 = winner) a tier reaches down to in a lobby of the given size
+export const cutoffRank = (cutoff: TierCutoff, lobbySize: number): number => {
+  return cutoff.unit === 'rank' ? Math.floor(cutoff.value) : Math.ceil((cutoff.value / 100) * lobbySize);
+};
+
+// Tier for a finishing position: the best-ranked tier whose cutoff reaches it, else the catch-all
+export const tierForRank = (tiers: PlacementTier[], rank: number, lobbySize: number): PlacementTier => {
+  return tiers.slice(0, -1).find((tier) => rank <= cutoffRank(tier.cutoff, lobbySize)) ?? catchAllTier(tiers);
+};
+
+// Determine the tier from a uniform roll in [0, 1)
+export const pickTier = (tiers: PlacementTier[], distribution: PlacementDistribution, roll: number): Placement => {
+  let cumulative = 0;
+  for (let i = 0; i < tiers.length - 1; i++) {
+    cumulative += tierProbability(distribution, tiers[i].id);
+    if (roll < cumulative) return tiers[i].id;
+  }
+  return catchAllTier(tiers).id;
+};
+
+// Tier color with transparency, for chart markers
+export const tierColor = (tier: PlacementTier, alpha: number): string => {
+  const value = parseInt(tier.color.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+// Move a removed tier's probability into the catch-all tier of the remaining list
+export const withoutTier = (distribution: PlacementDistribution, removed: Placement, remaining: PlacementTier[]): PlacementDistribution => {
+  const { [removed]: probability = 0, ...rest } = distribution;
+  const catchAll = catchAllTier(remaining).id;
+  return { ...rest, [catchAll]: tierProbability(rest, catchAll) + probability };
+};
+
+// Distribution over the given tiers only: probability on tiers missing from the list moves into its catch-all tier
+export const fitDistribution = (distribution: PlacementDistribution, tiers: PlacementTier[]): PlacementDistribution => {
+  const tierIds = tiers.map((tier) => tier.id);
+  return Object.keys(distribution)
+    .filter((tier) => !tierIds.includes(tier))
+    .reduce((fitted, missing) => withoutTier(fitted, missing, tiers), distribution);
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { daysToLevels, LevelTarget, targetStatus, validateLevelTarget } from './timeToLevel';
+
+const target = (earliest: number | null, latest: number | null): LevelTarget => ({ level: 10, earliest, latest });
+
+describe('daysToLevels', () => {
+  it('finds the first day each level is reached, or null within the horizon', () => {
+    const levels = [1, 3, 3, 10, 12];
+    expect(daysToLevels(levels, [1, 3, 4, 10, 12, 13].map((level) => ({ level, earliest: null, latest: null })))).toEqual([1, 2, 4, 4, 5, null]);
+  });
+});
+
+describe('targetStatus', () => {
+  it.each<[number | null, LevelTarget, string]>([
+    [20, target(null, null), 'none'],
+    [null, target(null, null), 'none'],
+    [9, target(10, 30), 'early'],
+    [10, target(10, 30), 'onTarget'],
+    [30, target(10, 30), 'onTarget'],
+    [31, target(10, 30), 'late'],
+    [null, target(10, 30), 'late']
+  ])('rates day %j against %j as %s', (day, window, status) => {
+    expect(targetStatus(day, window)).toBe(status);
+  });
+
+  it('only checks the bound an open-ended window has', () => {
+    expect(targetStatus(5, target(10, null))).toBe('early');
+    expect(targetStatus(500, target(10, null))).toBe('onTarget');
+    expect(targetStatus(1, target(null, 30))).toBe('onTarget');
+    expect(targetStatus(31, target(null, 30))).toBe('late');
+  });
+
+  it('has nothing to say about a level never reached with no deadline', () => {
+    expect(targetStatus(null, target(10, null))).toBe('none');
+    expect(targetStatus(null, target(null, 30))).toBe('late');
+  });
+});
+
+describe('validateLevelTarget', () => {
+  it('accepts open and closed windows', () => {
+    expect(validateLevelTarget(target(null, null))).toEqual([]);
+    expect(validateLevelTarget(target(30, 30))).toEqual([]);
+  });
+
+  it('rejects fractional levels and days and a window that ends before it starts', () => {
+    expect(validateLevelTarget({ level: 2.5, earliest: null, latest: null })).toEqual(['Report levels must be whole numbers from 1']);
+    expect(validateLevelTarget(target(0, 1.5))).toEqual(['Level 10: target days must be whole numbers from 1']);
+    expect(validateLevelTarget(target(30, 10))).toEqual(['Level 10: the latest day must not be before the earliest']);
+  });
+});
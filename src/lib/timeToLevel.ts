@@ -0,0 +1,42 @@
+import { firstDayAtLevel } from './simulation';
+
+// A level in the time-to-level report, with the season days it should be reached between
+export interface LevelTarget {
+  level: number;
+  earliest: number | null; // 1-based season day; null = no lower bound
+  latest: number | null; // null = no upper bound
+}
+
+export const defaultLevelTargets: LevelTarget[] = [5, 10, 25, 50, 100, 250, 500].map((level) => ({
+  level,
+  earliest: null,
+  latest: null
+}));
+
+// How a profile's day to reach a level compares with the level's target window
+export type TargetStatus = 'none' | 'early' | 'onTarget' | 'late';
+
+export const validateLevelTarget = (target: LevelTarget): string[] => {
+  const errors: string[] = [];
+  if (!Number.isInteger(target.level) || target.level < 1) errors.push('Report levels must be whole numbers from 1');
+  const bounds = [target.earliest, target.latest].filter((day): day is number => day !== null);
+  if (bounds.some((day) => !Number.isInteger(day) || day < 1)) errors.push(`Level ${target.level}: target days must be whole numbers from 1`);
+  if (target.earliest !== null && target.latest !== null && target.latest < target.earliest) {
+    errors.push(`Level ${target.level}: the latest day must not be before the earliest`);
+  }
+  return errors;
+};
+
+// Day (1-based) each level is first reached for one level series, or null if never within the season
+export const daysToLevels = (levels: number[], targets: LevelTarget[]): (number | null)[] => {
+  return targets.map((target) => firstDayAtLevel(levels, target.level));
+};
+
+// Never reaching a level with an upper bound counts as late
+export const targetStatus = (day: number | null, target: LevelTarget): TargetStatus => {
+  if (target.earliest === null && target.latest === null) return 'none';
+  if (day === null) return target.latest === null ? 'none' : 'late';
+  if (target.earliest !== null && day < target.earliest) return 'early';
+  if (target.latest !== null && day > target.latest) return 'late';
+  return 'onTarget';
+};